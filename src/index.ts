@@ -1,74 +1,316 @@
 #!/usr/bin/env node
 
-import { InfisicalSDK } from "@infisical/sdk";
+import {
+  Environment,
+  Folder,
+  InfisicalSDK,
+  Secret,
+  SecretType,
+} from "@infisical/sdk";
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
 import fs from "fs";
-import axios from "axios";
+import http from "http";
+import axios, { AxiosRequestConfig } from "axios";
 import path from "path";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
   CallToolRequestSchema,
+  CallToolResult,
+  GetPromptRequestSchema,
+  isInitializeRequest,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import YAML from "yaml";
 import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
 
 enum InfisicalAuthMethod {
   UniversalAuth = "universal-auth",
   TokenAuth = "access-token",
+  KubernetesAuth = "kubernetes-auth",
+  AwsIamAuth = "aws-iam-auth",
+  GcpAuth = "gcp-auth",
+  AzureAuth = "azure-auth",
+  OidcAuth = "oidc-auth",
+}
+
+enum McpTransport {
+  Stdio = "stdio",
+  StreamableHttp = "http",
+}
+
+enum SecretRedactionMode {
+  None = "none",
+  Masked = "masked",
+  Fingerprint = "fingerprint",
+  KeysOnly = "keys-only",
+}
+
+enum AvailableTools {
+  CreateSecret = "create-secret",
+  DeleteSecret = "delete-secret",
+  UpdateSecret = "update-secret",
+  ListSecrets = "list-secrets",
+  GetSecret = "get-secret",
+  CreateProject = "create-project",
+  CreateEnvironment = "create-environment",
+  CreateFolder = "create-folder",
+  InviteMembersToProject = "invite-members-to-project",
+  ListProjects = "list-projects",
+  BulkCreateSecrets = "bulk-create-secrets",
+  BulkUpdateSecrets = "bulk-update-secrets",
+  BulkDeleteSecrets = "bulk-delete-secrets",
+  ExportSecrets = "export-secrets",
+  ImportSecrets = "import-secrets",
+  DiffSecrets = "diff-secrets",
+  ListSecretVersions = "list-secret-versions",
+  RollbackSecret = "rollback-secret",
+  ListFolders = "list-folders",
+  FolderTree = "folder-tree",
+  UpdateFolder = "update-folder",
+  DeleteFolder = "delete-folder",
+  GetEnvironment = "get-environment",
+  ListEnvironments = "list-environments",
+  UpdateEnvironment = "update-environment",
+  DeleteEnvironment = "delete-environment",
+  GetProject = "get-project",
+  UpdateProject = "update-project",
+  DeleteProject = "delete-project",
+  ListSecretImports = "list-secret-imports",
+  CreateSecretImport = "create-secret-import",
+  UpdateSecretImport = "update-secret-import",
+  DeleteSecretImport = "delete-secret-import",
+  ExplainSecret = "explain-secret",
+  AnalyzeSecretReferences = "analyze-secret-references",
+  ListProfiles = "list-profiles",
+  SetContext = "set-context",
+  GetContext = "get-context",
 }
 
+// tools that never mutate anything in Infisical, these are the only tools available in read-only mode
+const READ_ONLY_TOOLS: AvailableTools[] = [
+  AvailableTools.ListSecrets,
+  AvailableTools.GetSecret,
+  AvailableTools.ListProjects,
+  AvailableTools.ExportSecrets,
+  AvailableTools.DiffSecrets,
+  AvailableTools.ListSecretVersions,
+  AvailableTools.ListFolders,
+  AvailableTools.FolderTree,
+  AvailableTools.GetEnvironment,
+  AvailableTools.ListEnvironments,
+  AvailableTools.GetProject,
+  AvailableTools.ListSecretImports,
+  AvailableTools.ExplainSecret,
+  AvailableTools.AnalyzeSecretReferences,
+  AvailableTools.ListProfiles,
+  AvailableTools.SetContext,
+  AvailableTools.GetContext,
+];
+
+// tools that change or delete existing data, and the effect described to the user when
+// INFISICAL_REQUIRE_CONFIRMATION is enabled. diff-secrets only needs a confirmation when applying the diff
+const CONFIRMATION_REQUIRED_TOOLS: Partial<Record<AvailableTools, string>> = {
+  [AvailableTools.DeleteSecret]: "Delete the secret",
+  [AvailableTools.UpdateSecret]: "Update the secret",
+  [AvailableTools.InviteMembersToProject]: "Invite members to the project",
+  [AvailableTools.BulkUpdateSecrets]: "Update the secrets",
+  [AvailableTools.BulkDeleteSecrets]: "Delete the secrets",
+  [AvailableTools.ImportSecrets]:
+    "Import secrets, possibly overwriting existing ones, into",
+  [AvailableTools.RollbackSecret]: "Roll back the secret",
+  [AvailableTools.UpdateFolder]: "Rename or update the folder",
+  [AvailableTools.DeleteFolder]: "Delete the folder and everything inside it",
+  [AvailableTools.UpdateEnvironment]: "Update the environment",
+  [AvailableTools.DeleteEnvironment]:
+    "Delete the environment and all of its secrets",
+  [AvailableTools.UpdateProject]: "Update the project",
+  [AvailableTools.DeleteProject]: "Delete the project and all of its secrets",
+  [AvailableTools.UpdateSecretImport]: "Update the secret import of",
+  [AvailableTools.DeleteSecretImport]: "Remove the secret import of",
+  [AvailableTools.DiffSecrets]:
+    "Copy the secrets that only exist in the source to",
+};
+
+const CONFIRMATION_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+const toolNameListSchema = z
+  .string()
+  .optional()
+  .transform((value) =>
+    (value ?? "")
+      .split(",")
+      .map((toolName) => toolName.trim())
+      .filter(Boolean),
+  )
+  .pipe(z.array(z.nativeEnum(AvailableTools)));
+
 const packageJson = JSON.parse(
   fs.readFileSync(path.join(__dirname, "../package.json"), "utf-8"),
 ) as { version: string };
 
+// the host, credentials and default context of a profile, read from the env vars or from the profiles in INFISICAL_PROFILES_FILE
+const profileConfigSchema = z.object({
+  INFISICAL_AUTH_METHOD: z
+    .nativeEnum(InfisicalAuthMethod)
+    .default(InfisicalAuthMethod.UniversalAuth),
+  INFISICAL_TOKEN: z.string().trim().min(1).optional(),
+  INFISICAL_MACHINE_IDENTITY_ID: z.string().trim().min(1).optional(),
+  INFISICAL_KUBERNETES_SERVICE_ACCOUNT_TOKEN_PATH: z
+    .string()
+    .trim()
+    .min(1)
+    .default("/var/run/secrets/kubernetes.io/serviceaccount/token"),
+  INFISICAL_AZURE_AUTH_RESOURCE: z
+    .string()
+    .trim()
+    .min(1)
+    .default("https://management.azure.com/"),
+  INFISICAL_OIDC_AUTH_JWT: z.string().trim().min(1).optional(),
+  INFISICAL_OIDC_AUTH_JWT_PATH: z.string().trim().min(1).optional(),
+  INFISICAL_UNIVERSAL_AUTH_CLIENT_ID: z.string().trim().min(1).optional(),
+  INFISICAL_UNIVERSAL_AUTH_CLIENT_SECRET: z.string().trim().min(1).optional(),
+  INFISICAL_HOST_URL: z.string().default("https://app.infisical.com"),
+  INFISICAL_DEFAULT_PROJECT: z.string().trim().min(1).optional(),
+  INFISICAL_DEFAULT_ENVIRONMENT: z.string().trim().min(1).optional(),
+  INFISICAL_DEFAULT_SECRET_PATH: z.string().trim().min(1).optional(),
+});
+
+type ProfileConfig = z.infer<typeof profileConfigSchema>;
+
+const validateProfileConfig = (data: ProfileConfig, ctx: z.RefinementCtx) => {
+  const missingClientIdOrClientSecret =
+    !data.INFISICAL_UNIVERSAL_AUTH_CLIENT_ID ||
+    !data.INFISICAL_UNIVERSAL_AUTH_CLIENT_SECRET;
+
+  const missingToken = !data.INFISICAL_TOKEN;
+
+  if (
+    data.INFISICAL_AUTH_METHOD !== InfisicalAuthMethod.UniversalAuth &&
+    data.INFISICAL_AUTH_METHOD !== InfisicalAuthMethod.TokenAuth &&
+    !data.INFISICAL_MACHINE_IDENTITY_ID
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Authentication method is set to ${data.INFISICAL_AUTH_METHOD}, but INFISICAL_MACHINE_IDENTITY_ID is not set`,
+    });
+  }
+
+  switch (data.INFISICAL_AUTH_METHOD) {
+    case InfisicalAuthMethod.UniversalAuth:
+      if (missingClientIdOrClientSecret) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message:
+            "Authentication method is set to universal auth, but INFISICAL_UNIVERSAL_AUTH_CLIENT_ID or INFISICAL_UNIVERSAL_AUTH_CLIENT_SECRET is not set",
+        });
+      }
+      break;
+    case InfisicalAuthMethod.TokenAuth:
+      if (missingToken) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message:
+            "Authentication method is set to token auth, but INFISICAL_TOKEN is not set",
+        });
+      }
+      break;
+    case InfisicalAuthMethod.KubernetesAuth:
+      if (
+        !fs.existsSync(data.INFISICAL_KUBERNETES_SERVICE_ACCOUNT_TOKEN_PATH)
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Authentication method is set to kubernetes auth, but the service account token at ${data.INFISICAL_KUBERNETES_SERVICE_ACCOUNT_TOKEN_PATH} does not exist. Set INFISICAL_KUBERNETES_SERVICE_ACCOUNT_TOKEN_PATH if the token is mounted elsewhere`,
+        });
+      }
+      break;
+    case InfisicalAuthMethod.OidcAuth:
+      if (!data.INFISICAL_OIDC_AUTH_JWT && !data.INFISICAL_OIDC_AUTH_JWT_PATH) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message:
+            "Authentication method is set to OIDC auth, but neither INFISICAL_OIDC_AUTH_JWT nor INFISICAL_OIDC_AUTH_JWT_PATH is set",
+        });
+      } else if (
+        data.INFISICAL_OIDC_AUTH_JWT_PATH &&
+        !fs.existsSync(data.INFISICAL_OIDC_AUTH_JWT_PATH)
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Authentication method is set to OIDC auth, but the JWT at ${data.INFISICAL_OIDC_AUTH_JWT_PATH} does not exist`,
+        });
+      }
+      break;
+    // AWS, GCP and Azure credentials come from the environment the server runs in
+    case InfisicalAuthMethod.AwsIamAuth:
+    case InfisicalAuthMethod.GcpAuth:
+    case InfisicalAuthMethod.AzureAuth:
+      break;
+    default:
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unsupported authentication method: ${data.INFISICAL_AUTH_METHOD}`,
+      });
+      break;
+  }
+};
+
 const getEnvironmentVariables = () => {
-  const envSchema = z
-    .object({
-      INFISICAL_AUTH_METHOD: z
-        .nativeEnum(InfisicalAuthMethod)
-        .default(InfisicalAuthMethod.UniversalAuth),
-      INFISICAL_TOKEN: z.string().trim().min(1).optional(),
-      INFISICAL_UNIVERSAL_AUTH_CLIENT_ID: z.string().trim().min(1).optional(),
-      INFISICAL_UNIVERSAL_AUTH_CLIENT_SECRET: z
-        .string()
-        .trim()
+  const envSchema = profileConfigSchema
+    .extend({
+      INFISICAL_SECRET_REDACTION: z
+        .nativeEnum(SecretRedactionMode)
+        .default(SecretRedactionMode.None),
+      INFISICAL_READ_ONLY: z
+        .enum(["true", "false"])
+        .default("false")
+        .transform((value) => value === "true"),
+      INFISICAL_ENABLED_TOOLS: toolNameListSchema,
+      INFISICAL_DISABLED_TOOLS: toolNameListSchema,
+      INFISICAL_MCP_TRANSPORT: z
+        .nativeEnum(McpTransport)
+        .default(McpTransport.Stdio),
+      INFISICAL_MCP_HTTP_HOST: z.string().trim().min(1).default("127.0.0.1"),
+      INFISICAL_MCP_HTTP_PORT: z.coerce
+        .number()
+        .int()
         .min(1)
-        .optional(),
-      INFISICAL_HOST_URL: z.string().default("https://app.infisical.com"),
+        .max(65535)
+        .default(3000),
+      INFISICAL_MCP_HTTP_AUTH_TOKEN: z.string().trim().min(1).optional(),
+      INFISICAL_AUDIT_LOG: z.string().trim().min(1).optional(),
+      INFISICAL_REQUIRE_CONFIRMATION: z
+        .enum(["true", "false"])
+        .default("false")
+        .transform((value) => value === "true"),
+      INFISICAL_CACHE_TTL_SECONDS: z.coerce.number().int().min(0).default(30),
+      INFISICAL_PROFILES_FILE: z.string().trim().min(1).optional(),
+      INFISICAL_DEFAULT_PROFILE: z.string().trim().min(1).optional(),
     })
     // validate the env vars on startup to avoid runtime errors
     .superRefine((data, ctx) => {
-      const missingClientIdOrClientSecret =
-        !data.INFISICAL_UNIVERSAL_AUTH_CLIENT_ID ||
-        !data.INFISICAL_UNIVERSAL_AUTH_CLIENT_SECRET;
-
-      const missingToken = !data.INFISICAL_TOKEN;
-
-      switch (data.INFISICAL_AUTH_METHOD) {
-        case InfisicalAuthMethod.UniversalAuth:
-          if (missingClientIdOrClientSecret) {
-            ctx.addIssue({
-              code: z.ZodIssueCode.custom,
-              message:
-                "Authentication method is set to universal auth, but INFISICAL_UNIVERSAL_AUTH_CLIENT_ID or INFISICAL_UNIVERSAL_AUTH_CLIENT_SECRET is not set",
-            });
-          }
-          break;
-        case InfisicalAuthMethod.TokenAuth:
-          if (missingToken) {
-            ctx.addIssue({
-              code: z.ZodIssueCode.custom,
-              message:
-                "Authentication method is set to token auth, but INFISICAL_TOKEN is not set",
-            });
-          }
-          break;
-        default:
-          ctx.addIssue({
-            code: z.ZodIssueCode.custom,
-            message: `Unsupported authentication method: ${data.INFISICAL_AUTH_METHOD}`,
-          });
-          break;
+      // with a profiles file, the credentials are only read from that file
+      if (!data.INFISICAL_PROFILES_FILE) {
+        validateProfileConfig(data, ctx);
+      }
+
+      if (
+        data.INFISICAL_MCP_TRANSPORT === McpTransport.StreamableHttp &&
+        !data.INFISICAL_MCP_HTTP_AUTH_TOKEN
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message:
+            "Transport is set to http, but INFISICAL_MCP_HTTP_AUTH_TOKEN is not set",
+        });
       }
     })
     .parse(process.env);
@@ -77,774 +319,5289 @@ const getEnvironmentVariables = () => {
 };
 
 const env = getEnvironmentVariables();
-let isAuthenticated = false;
-const infisicalSdk = new InfisicalSDK({
-  siteUrl: env.INFISICAL_HOST_URL,
-});
 
-const handleAuthentication = async () => {
-  if (isAuthenticated) {
-    return;
+const getProfileConfigs = (): Record<string, ProfileConfig> => {
+  if (!env.INFISICAL_PROFILES_FILE) {
+    return { default: env };
   }
 
-  switch (env.INFISICAL_AUTH_METHOD) {
-    case InfisicalAuthMethod.UniversalAuth:
-      await infisicalSdk.auth().universalAuth.login({
-        clientId: env.INFISICAL_UNIVERSAL_AUTH_CLIENT_ID!,
-        clientSecret: env.INFISICAL_UNIVERSAL_AUTH_CLIENT_SECRET!,
-      });
-      break;
-    case InfisicalAuthMethod.TokenAuth:
-      infisicalSdk.auth().accessToken(env.INFISICAL_TOKEN!);
-      break;
-    default:
-      throw new Error(
-        `Unsupported authentication method: ${env.INFISICAL_AUTH_METHOD}`,
-      );
-  }
+  // YAML is a superset of JSON, so the profiles file can be written in either
+  return z
+    .record(profileConfigSchema.superRefine(validateProfileConfig))
+    .refine((profileConfigs) => Object.keys(profileConfigs).length > 0, {
+      message: "INFISICAL_PROFILES_FILE doesn't define any profiles",
+    })
+    .parse(YAML.parse(fs.readFileSync(env.INFISICAL_PROFILES_FILE, "utf-8")));
+};
 
-  isAuthenticated = true;
+type Profile = {
+  name: string;
+  config: ProfileConfig;
+  sdk: InfisicalSDK;
+  isAuthenticated: boolean;
+  // epoch milliseconds, null when the expiry of the current access token is unknown
+  accessTokenExpiresAt: number | null;
+  pendingAuthentication: Promise<void> | null;
 };
 
-const server = new Server(
-  {
-    name: "Infisical",
-    version: packageJson.version,
-  },
-  {
-    capabilities: {
-      tools: {},
+// every profile has its own SDK client, which is only authenticated once a tool call uses the profile
+const profiles = new Map<string, Profile>(
+  Object.entries(getProfileConfigs()).map(([name, config]) => [
+    name,
+    {
+      name,
+      config,
+      sdk: new InfisicalSDK({ siteUrl: config.INFISICAL_HOST_URL }),
+      isAuthenticated: false,
+      accessTokenExpiresAt: null,
+      pendingAuthentication: null,
     },
-  },
+  ]),
 );
 
-enum AvailableTools {
-  CreateSecret = "create-secret",
-  DeleteSecret = "delete-secret",
-  UpdateSecret = "update-secret",
-  ListSecrets = "list-secrets",
-  GetSecret = "get-secret",
-  CreateProject = "create-project",
-  CreateEnvironment = "create-environment",
-  CreateFolder = "create-folder",
-  InviteMembersToProject = "invite-members-to-project",
-  ListProjects = "list-projects",
+const defaultProfileName =
+  env.INFISICAL_DEFAULT_PROFILE ?? [...profiles.keys()][0];
+if (!profiles.has(defaultProfileName)) {
+  throw new Error(
+    `INFISICAL_DEFAULT_PROFILE is set to ${defaultProfileName}, but no profile with that name is configured. Configured profiles: ${[...profiles.keys()].join(", ")}`,
+  );
 }
 
-const createSecretSchema = {
-  zod: z.object({
-    projectId: z.string(),
-    environmentSlug: z.string(),
-    secretName: z.string(),
-    secretValue: z.string().optional(),
-    secretPath: z.string().default("/"),
-  }),
-  capability: {
-    name: AvailableTools.CreateSecret,
-    description: "Create a new secret in Infisical",
-    inputSchema: {
-      type: "object",
-      properties: {
-        projectId: {
-          type: "string",
-          description:
-            "The ID of the project to create the secret in (required)",
-        },
-        environmentSlug: {
-          type: "string",
-          description:
-            "The slug of the environment to create the secret in (required)",
-        },
-        secretName: {
-          type: "string",
-          description: "The name of the secret to create (required)",
-        },
-        secretValue: {
-          type: "string",
-          description: "The value of the secret to create",
-        },
-        secretPath: {
-          type: "string",
-          description: "The path of the secret to create (Defaults to /)",
-        },
+// the profile and session of the tool call being handled, everything else uses the default profile
+const requestStorage = new AsyncLocalStorage<{
+  profile: Profile;
+  sessionId?: string;
+  bypassCache?: boolean;
+}>();
+
+const getProfile = () =>
+  requestStorage.getStore()?.profile ?? profiles.get(defaultProfileName)!;
+
+// every request of the SDK clients is retried on its own, see retryOnUnauthorized
+const getInfisicalSdk = () => {
+  const profile = getProfile();
+  const withRetries = <T extends object>(client: T) =>
+    new Proxy(client, {
+      get: (target, property) => {
+        const value = Reflect.get(target, property);
+        return typeof value === "function"
+          ? (...args: unknown[]) =>
+              retryOnUnauthorized(profile, () => value.apply(target, args))
+          : value;
       },
-      required: ["projectId", "environmentSlug", "secretName"],
-    },
-  },
+    });
+
+  return {
+    secrets: () => withRetries(profile.sdk.secrets()),
+    environments: () => withRetries(profile.sdk.environments()),
+    projects: () => withRetries(profile.sdk.projects()),
+    folders: () => withRetries(profile.sdk.folders()),
+  };
 };
 
-const deleteSecretSchema = {
-  zod: z.object({
-    projectId: z.string(),
-    environmentSlug: z.string(),
-    secretPath: z.string().default("/"),
-    secretName: z.string(),
-  }),
-  capability: {
-    name: AvailableTools.DeleteSecret,
-    description: "Delete a secret in Infisical",
-    inputSchema: {
-      type: "object",
-      properties: {
-        projectId: {
-          type: "string",
-          description:
-            "The ID of the project to delete the secret from (required)",
-        },
-        environmentSlug: {
-          type: "string",
-          description:
-            "The slug of the environment to delete the secret from (required)",
-        },
-        secretPath: {
-          type: "string",
-          description: "The path of the secret to delete (Defaults to /)",
-        },
-        secretName: {
-          type: "string",
-          description: "The name of the secret to delete (required)",
-        },
-      },
-      required: ["projectId", "environmentSlug", "secretName"],
-    },
-  },
+// renew the access token slightly before it expires so in-flight requests don't fail
+const ACCESS_TOKEN_RENEWAL_MARGIN_MS = 60 * 1000;
+
+const ACCESS_TOKEN_EXPIRED_MESSAGE =
+  "The Infisical access token has expired or is no longer valid. Generate a new access token, update INFISICAL_TOKEN and restart the MCP server. To avoid this in the future, use universal auth (INFISICAL_AUTH_METHOD=universal-auth) which renews its token automatically.";
+
+const getInfisicalApiUrl = (profile: Profile) => {
+  let hostUrl = profile.config.INFISICAL_HOST_URL;
+  if (!hostUrl.endsWith("/api")) {
+    if (hostUrl.endsWith("/")) {
+      hostUrl = hostUrl.slice(0, -1);
+    }
+
+    hostUrl += "/api";
+  }
+
+  return hostUrl;
 };
 
-const updateSecretSchema = {
-  zod: z.object({
-    projectId: z.string(),
-    environmentSlug: z.string(),
-    secretName: z.string(),
-    newSecretName: z.string().optional(),
-    secretValue: z.string().optional(),
-    secretPath: z.string().default("/"),
-  }),
-  capability: {
-    name: AvailableTools.UpdateSecret,
-    description: "Update a secret in Infisical",
-    inputSchema: {
-      type: "object",
-      properties: {
-        projectId: {
-          type: "string",
-          description:
-            "The ID of the project to update the secret in (required)",
-        },
-        environmentSlug: {
-          type: "string",
-          description:
-            "The slug of the environment to update the secret in (required)",
-        },
-        secretName: {
-          type: "string",
-          description: "The current name of the secret to update (required)",
-        },
-        newSecretName: {
-          type: "string",
-          description: "The new name of the secret to update (Optional)",
-        },
-        secretValue: {
-          type: "string",
-          description: "The new value of the secret to update (Optional)",
-        },
-        secretPath: {
-          type: "string",
-          description: "The path of the secret to update (Defaults to /)",
-        },
-      },
-      required: ["projectId", "environmentSlug", "secretName"],
-    },
-  },
+const isUnauthorizedError = (err: unknown) => {
+  if (axios.isAxiosError(err)) {
+    return err.response?.status === 401;
+  }
+
+  // the SDK wraps axios errors and only keeps the status code in the message
+  return err instanceof Error && err.message.includes("[StatusCode=401]");
 };
 
-const listSecretsSchema = {
-  zod: z.object({
-    projectId: z.string(),
-    environmentSlug: z.string(),
-    secretPath: z.string().default("/"),
-    expandSecretReferences: z.boolean().default(true),
-    includeImports: z.boolean().default(true),
-  }),
-  capability: {
-    name: AvailableTools.ListSecrets,
-    description:
-      "List all secrets in a given Infisical project and environment",
-    inputSchema: {
-      type: "object",
-      properties: {
-        projectId: {
-          type: "string",
-          description:
-            "The ID of the project to list the secrets from (required)",
-        },
-        environmentSlug: {
-          type: "string",
-          description:
-            "The slug of the environment to list the secrets from (required)",
-        },
-        secretPath: {
-          type: "string",
-          description: "The path of the secrets to list (Defaults to /)",
-        },
-        expandSecretReferences: {
-          type: "boolean",
-          description: "Whether to expand secret references (Defaults to true)",
-        },
-        includeImports: {
-          type: "boolean",
-          description: "Whether to include secret imports (Defaults to true)",
-        },
-      },
-      required: ["projectId", "environmentSlug"],
-    },
-  },
+// the body Infisical responds with when a request fails
+type InfisicalApiError = {
+  reqId?: string;
+  statusCode?: number;
+  error?: string;
+  message?: unknown;
 };
 
-const getSecretSchema = {
-  zod: z.object({
-    secretName: z.string(),
-    projectId: z.string(),
-    environmentSlug: z.string(),
-    secretPath: z.string().default("/"),
-    expandSecretReferences: z.boolean().default(true),
-    includeImports: z.boolean().default(true),
-  }),
-  capability: {
-    name: AvailableTools.GetSecret,
-    description: "Get a secret in Infisical",
-    inputSchema: {
-      type: "object",
-      properties: {
-        secretName: {
-          type: "string",
-          description: "The name of the secret to get (required)",
-        },
-        projectId: {
-          type: "string",
-          description:
-            "The ID of the project to get the secret from (required)",
-        },
-        environmentSlug: {
-          type: "string",
-          description:
-            "The slug of the environment to get the secret from (required)",
-        },
-        secretPath: {
-          type: "string",
-          description: "The path of the secret to get (Defaults to /)",
-        },
-        expandSecretReferences: {
-          type: "boolean",
-          description: "Whether to expand secret references (Defaults to true)",
-        },
-        includeImports: {
-          type: "boolean",
-          description:
-            "Whether to include secret imports. If the secret isn't found, it will try to find a secret in a secret import that matches the requested secret name (Defaults to true)",
-        },
-      },
-      required: ["projectId", "environmentSlug", "secretName"],
-    },
-  },
+type ToolError = {
+  message: string;
+  status?: number;
+  error?: string;
+  requestId?: string;
+  hint?: string;
 };
 
-const createProjectSchema = {
-  zod: z.object({
-    projectName: z.string(),
-    type: z.enum(["secret-manager", "cert-manager", "kms", "ssh"]),
-    description: z.string().optional(),
-    slug: z.string().optional(),
-    projectTemplate: z.string().optional(),
-    kmsKeyId: z.string().optional(),
-  }),
-  capability: {
-    name: AvailableTools.CreateProject,
-    description: "Create a new project in Infisical",
-    inputSchema: {
-      type: "object",
-      properties: {
-        projectName: {
-          type: "string",
-          description: "The name of the project to create (required)",
-        },
-        type: {
-          type: "string",
-          description:
-            "The type of project to create (required). If not specified by the user, ask them to confirm the type they want to use.",
-        },
-        description: {
-          type: "string",
-          description: "The description of the project to create",
-        },
-        slug: {
-          type: "string",
-          description: "The slug of the project to create",
-        },
-        projectTemplate: {
-          type: "string",
-          description: "The template of the project to create",
-        },
-        kmsKeyId: {
-          type: "string",
-          description:
-            "The ID of the KMS key to use for the project. Defaults to Infisical's default KMS",
-        },
-      },
-      required: ["projectName", "type"],
-    },
-  },
+const SDK_REQUEST_ERROR_REGEX =
+  /^\[URL=.*?\] \[Method=.*?\] \[StatusCode=(\d+)\] ([\s\S]*)$/;
+
+const TOOL_ERROR_HINTS: Record<number, string> = {
+  400: "Infisical rejected the arguments. Correct the value named in the message and call the tool again",
+  401: "The credentials of the profile were rejected. Ask the user to check the configured credentials, this can't be fixed by changing the arguments",
+  403: "The identity of the profile isn't allowed to do this. Ask the user to grant it access to the project, or use a profile that has access",
+  404: "Check the IDs, slugs, paths and names in the arguments. list-projects, list-environments, list-folders and list-secrets show the existing ones",
+  409: "The resource already exists. Fetch and update the existing resource instead of creating it again",
+  422: "Infisical rejected the arguments. Correct the value named in the message and call the tool again",
+  429: "Infisical is rate limiting the requests. Wait before calling the tool again and avoid repeating calls whose result you already have",
 };
 
-const createEnvironmentSchema = {
-  zod: z.object({
-    projectId: z.string(),
-    name: z.string(),
-    slug: z.string(),
-    position: z.number().optional(),
-  }),
-  capability: {
-    name: AvailableTools.CreateEnvironment,
-    description: "Create a new environment in Infisical",
-    inputSchema: {
-      type: "object",
-      properties: {
-        projectId: {
-          type: "string",
-          description:
-            "The ID of the project to create the environment in (required)",
-        },
-        name: {
-          type: "string",
-          description: "The name of the environment to create (required)",
-        },
-        slug: {
-          type: "string",
-          description: "The slug of the environment to create (required)",
-        },
-        position: {
-          type: "number",
-          description: "The position of the environment to create",
-        },
-      },
+// axios errors carry the response body, the SDK only keeps the status code and the message
+const parseToolError = (err: unknown): ToolError => {
+  if (err instanceof z.ZodError) {
+    return {
+      message: `Invalid arguments: ${err.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`,
+      hint: "Correct the listed arguments and call the tool again",
+    };
+  }
 
-      required: ["projectId", "name", "slug"],
-    },
-  },
+  let status: number | undefined;
+  let body: InfisicalApiError | undefined;
+  let message = err instanceof Error ? err.message : String(err);
+
+  if (axios.isAxiosError(err)) {
+    status = err.response?.status;
+    body = err.response?.data as InfisicalApiError | undefined;
+  } else {
+    const match = message.match(SDK_REQUEST_ERROR_REGEX);
+    if (match) {
+      status = Number(match[1]);
+      message = match[2];
+
+      // for validation errors the SDK passes the whole body as the message
+      try {
+        body = JSON.parse(message) as InfisicalApiError;
+      } catch {
+        body = undefined;
+      }
+    }
+  }
+
+  if (body && typeof body === "object") {
+    message =
+      typeof body.message === "string"
+        ? body.message
+        : body.message !== undefined
+          ? JSON.stringify(body.message)
+          : message;
+  }
+
+  let hint: string | undefined;
+  if (status !== undefined) {
+    hint =
+      status >= 500
+        ? "Infisical failed to handle the request. Try again later, and include the request ID when reporting the problem"
+        : TOOL_ERROR_HINTS[status];
+  } else if (
+    /ECONNREFUSED|ENOTFOUND|ETIMEDOUT|ECONNRESET|EAI_AGAIN/.test(message)
+  ) {
+    hint =
+      "Infisical couldn't be reached. Ask the user to check INFISICAL_HOST_URL and the network connection of the server";
+  }
+
+  return {
+    message,
+    status,
+    error: body?.error,
+    requestId: body?.reqId,
+    hint,
+  };
 };
 
-const createFolderSchema = {
-  zod: z.object({
-    description: z.string().optional(),
-    environment: z.string(),
-    name: z.string(),
-    path: z.string().default("/"),
-    projectId: z.string(),
-  }),
-  capability: {
-    name: AvailableTools.CreateFolder,
-    description: "Create a new folder in Infisical",
-    inputSchema: {
-      type: "object",
-      properties: {
-        description: {
-          type: "string",
-          description: "The description of the folder to create",
-        },
-        environment: {
-          type: "string",
-          description: "The environment to create the folder in (required)",
-        },
-        name: {
-          type: "string",
-          description: "The name of the folder to create (required)",
-        },
-        path: {
-          type: "string",
-          description: "The path to create the folder in (Defaults to /)",
-        },
-        projectId: {
-          type: "string",
-          description: "The project to create the folder in (required)",
-        },
+// access tokens are JWTs, their claims are read without verifying the signature
+const decodeAccessToken = (accessToken: string) => {
+  try {
+    const [, payload] = accessToken.split(".");
+    return JSON.parse(Buffer.from(payload, "base64url").toString("utf-8")) as {
+      exp?: number;
+      authTokenType?: string;
+      identityId?: string;
+      userId?: string;
+    };
+  } catch {
+    return null;
+  }
+};
+
+// the expiry is read from the `exp` claim when present
+const getAccessTokenExpiry = (accessToken: string) => {
+  const exp = decodeAccessToken(accessToken)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+};
+
+const setAccessToken = (
+  profile: Profile,
+  accessToken: string,
+  expiresIn: number,
+) => {
+  profile.sdk.auth().accessToken(accessToken);
+  profile.accessTokenExpiresAt =
+    expiresIn > 0 ? Date.now() + expiresIn * 1000 : null;
+};
+
+const loginWithUniversalAuth = async (profile: Profile) => {
+  const { data } = await axios.post<{
+    accessToken: string;
+    expiresIn: number;
+  }>(`${getInfisicalApiUrl(profile)}/v1/auth/universal-auth/login`, {
+    clientId: profile.config.INFISICAL_UNIVERSAL_AUTH_CLIENT_ID!,
+    clientSecret: profile.config.INFISICAL_UNIVERSAL_AUTH_CLIENT_SECRET!,
+  });
+
+  setAccessToken(profile, data.accessToken, data.expiresIn);
+};
+
+// kubernetes, GCP, Azure and OIDC auth all exchange a platform-issued JWT for an access token
+const loginWithJwt = async (
+  profile: Profile,
+  authMethod: InfisicalAuthMethod,
+  jwt: string,
+) => {
+  const { data } = await axios.post<{
+    accessToken: string;
+    expiresIn: number;
+  }>(`${getInfisicalApiUrl(profile)}/v1/auth/${authMethod}/login`, {
+    identityId: profile.config.INFISICAL_MACHINE_IDENTITY_ID!,
+    jwt: jwt.trim(),
+  });
+
+  setAccessToken(profile, data.accessToken, data.expiresIn);
+};
+
+const getGcpIdentityToken = async (profile: Profile) => {
+  const { data } = await axios.get<string>(
+    "http://metadata.google.internal/computeMetadata/v1/instance/service-accounts/default/identity",
+    {
+      headers: { "Metadata-Flavor": "Google" },
+      params: {
+        audience: `http://infisical/${profile.config.INFISICAL_MACHINE_IDENTITY_ID}`,
+        format: "full",
       },
-      required: ["name", "projectId", "environment"],
     },
-  },
+  );
+
+  return data;
 };
 
-const listProjectsSchema = {
-  zod: z.object({
-    type: z
-      .enum(["secret-manager", "cert-manager", "kms", "ssh", "all"])
-      .default("all"),
-  }),
-  capability: {
-    name: AvailableTools.ListProjects,
-    description:
-      "List all projects in Infisical that the machine identity has access to. If the user asks to list all projects, use the `all` type parameter.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        type: {
-          type: "string",
-          description:
-            "The type of projects to retrieve. If not specified, `all` projects will be retrieved.",
-        },
+const getAzureManagedIdentityToken = async (profile: Profile) => {
+  const { data } = await axios.get<{ access_token: string }>(
+    "http://169.254.169.254/metadata/identity/oauth2/token",
+    {
+      headers: { Metadata: "true" },
+      params: {
+        "api-version": "2018-02-01",
+        resource: profile.config.INFISICAL_AZURE_AUTH_RESOURCE,
       },
     },
-  },
+  );
+
+  return data.access_token;
+};
+
+const loginWithMachineIdentity = async (profile: Profile) => {
+  switch (profile.config.INFISICAL_AUTH_METHOD) {
+    case InfisicalAuthMethod.UniversalAuth:
+      await loginWithUniversalAuth(profile);
+      break;
+    case InfisicalAuthMethod.KubernetesAuth:
+      // service account tokens are rotated by kubernetes, so the file is read on every login
+      await loginWithJwt(
+        profile,
+        profile.config.INFISICAL_AUTH_METHOD,
+        await fs.promises.readFile(
+          profile.config.INFISICAL_KUBERNETES_SERVICE_ACCOUNT_TOKEN_PATH,
+          "utf-8",
+        ),
+      );
+      break;
+    case InfisicalAuthMethod.AwsIamAuth: {
+      // the SDK signs the STS request with the credentials of the AWS environment
+      await profile.sdk.auth().awsIamAuth.login({
+        identityId: profile.config.INFISICAL_MACHINE_IDENTITY_ID!,
+      });
+
+      const accessToken = profile.sdk.auth().getAccessToken()!;
+      profile.accessTokenExpiresAt = getAccessTokenExpiry(accessToken);
+      break;
+    }
+    case InfisicalAuthMethod.GcpAuth:
+      await loginWithJwt(
+        profile,
+        profile.config.INFISICAL_AUTH_METHOD,
+        await getGcpIdentityToken(profile),
+      );
+      break;
+    case InfisicalAuthMethod.AzureAuth:
+      await loginWithJwt(
+        profile,
+        profile.config.INFISICAL_AUTH_METHOD,
+        await getAzureManagedIdentityToken(profile),
+      );
+      break;
+    case InfisicalAuthMethod.OidcAuth:
+      await loginWithJwt(
+        profile,
+        profile.config.INFISICAL_AUTH_METHOD,
+        profile.config.INFISICAL_OIDC_AUTH_JWT_PATH
+          ? await fs.promises.readFile(
+              profile.config.INFISICAL_OIDC_AUTH_JWT_PATH,
+              "utf-8",
+            )
+          : profile.config.INFISICAL_OIDC_AUTH_JWT!,
+      );
+      break;
+    default:
+      throw new Error(
+        `Unsupported authentication method: ${profile.config.INFISICAL_AUTH_METHOD}`,
+      );
+  }
+};
+
+const renewAccessToken = async (profile: Profile) => {
+  const { data } = await axios.post<{
+    accessToken: string;
+    expiresIn: number;
+  }>(`${getInfisicalApiUrl(profile)}/v1/auth/token/renew`, {
+    accessToken: profile.sdk.auth().getAccessToken(),
+  });
+
+  setAccessToken(profile, data.accessToken, data.expiresIn);
+};
+
+// static access tokens can't be renewed, so they are used until they actually expire or get rejected
+const isAccessTokenExpiring = (profile: Profile) =>
+  profile.accessTokenExpiresAt !== null &&
+  Date.now() >=
+    profile.accessTokenExpiresAt -
+      (profile.config.INFISICAL_AUTH_METHOD === InfisicalAuthMethod.TokenAuth
+        ? 0
+        : ACCESS_TOKEN_RENEWAL_MARGIN_MS);
+
+const authenticate = async (profile: Profile, forceLogin: boolean) => {
+  switch (profile.config.INFISICAL_AUTH_METHOD) {
+    case InfisicalAuthMethod.TokenAuth:
+      if (profile.isAuthenticated) {
+        throw new Error(ACCESS_TOKEN_EXPIRED_MESSAGE);
+      }
+
+      profile.sdk.auth().accessToken(profile.config.INFISICAL_TOKEN!);
+      profile.accessTokenExpiresAt = getAccessTokenExpiry(
+        profile.config.INFISICAL_TOKEN!,
+      );
+
+      if (
+        profile.accessTokenExpiresAt !== null &&
+        Date.now() >= profile.accessTokenExpiresAt
+      ) {
+        throw new Error(ACCESS_TOKEN_EXPIRED_MESSAGE);
+      }
+      break;
+    default:
+      // machine identity access tokens are renewed until they reach their max TTL
+      if (profile.isAuthenticated && !forceLogin) {
+        try {
+          await renewAccessToken(profile);
+          break;
+        } catch (err) {
+          // the token can't be renewed past its max TTL, in which case we log in again.
+          // the error itself is never logged, as its request body contains the access token
+          const { status, message } = parseToolError(err);
+          console.error(
+            `Failed to renew the Infisical access token, logging in again: ${status ? `[${status}] ` : ""}${message}`,
+          );
+        }
+      }
+
+      await loginWithMachineIdentity(profile);
+      break;
+  }
+
+  profile.isAuthenticated = true;
+};
+
+const handleAuthentication = async (
+  profile: Profile,
+  { forceLogin = false } = {},
+) => {
+  if (
+    profile.isAuthenticated &&
+    !forceLogin &&
+    !isAccessTokenExpiring(profile)
+  ) {
+    return;
+  }
+
+  // concurrent tool calls share a single login/renewal request
+  if (!profile.pendingAuthentication) {
+    profile.pendingAuthentication = authenticate(profile, forceLogin).finally(
+      () => {
+        profile.pendingAuthentication = null;
+      },
+    );
+  }
+
+  await profile.pendingAuthentication;
+};
+
+// runs the callback with a valid access token
+const withAuthentication = async <T>(callback: () => Promise<T>) => {
+  await handleAuthentication(getProfile());
+  return callback();
+};
+
+// retries a single request once with a fresh token if Infisical rejects the current one. Only the failed request is
+// sent again, as retrying a whole tool call would repeat the changes it already made
+const retryOnUnauthorized = async <T>(
+  profile: Profile,
+  request: () => Promise<T>,
+) => {
+  try {
+    return await request();
+  } catch (err) {
+    if (!isUnauthorizedError(err)) {
+      throw err;
+    }
+
+    await handleAuthentication(profile, { forceLogin: true });
+    return request();
+  }
+};
+
+// for endpoints the SDK doesn't cover yet
+const callInfisicalApi = async <T>(config: AxiosRequestConfig) => {
+  const profile = getProfile();
+  const res = await retryOnUnauthorized(profile, () =>
+    axios.request<T>({
+      ...config,
+      baseURL: getInfisicalApiUrl(profile),
+      headers: {
+        Authorization: `Bearer ${profile.sdk.auth().getAccessToken()}`,
+        ...config.headers,
+      },
+    }),
+  );
+
+  return res.data;
+};
+
+type Workspace = {
+  hasDeleteProtection: boolean;
+  id: string;
+  name: string;
+  description?: string | null;
+  orgId: string;
+  slug: string;
+  type: string;
+  kmsSecretManagerKeyId?: string | null;
+  environments: {
+    name: string;
+    slug: string;
+    id: string;
+  }[];
+};
+
+const formatProject = (workspace: Workspace) => ({
+  hasDeleteProtection: workspace.hasDeleteProtection,
+  id: workspace.id,
+  name: workspace.name,
+  description: workspace.description,
+  orgId: workspace.orgId,
+  slug: workspace.slug,
+  type: workspace.type,
+  kmsKeyId: workspace.kmsSecretManagerKeyId,
+  environments: workspace.environments.map((environment) => ({
+    ...environment,
+  })),
+});
+
+// responses of project and secret reads, keyed by profile so profiles never see each other's data.
+// keys are "<profile>:projects:<type>", "<profile>:project:<projectId>" and "<profile>:secrets:<projectId>:<options>"
+const responseCache = new Map<
+  string,
+  { expiresAt: number; value: Promise<unknown> }
+>();
+
+// the pending promise is cached so concurrent reads of the same resource share a single request
+const withCache = <T>(key: string, load: () => Promise<T>) => {
+  if (!env.INFISICAL_CACHE_TTL_SECONDS) {
+    return load();
+  }
+
+  const now = Date.now();
+  const cacheKey = `${getProfile().name}:${key}`;
+  const cached = responseCache.get(cacheKey);
+  if (
+    cached &&
+    cached.expiresAt > now &&
+    !requestStorage.getStore()?.bypassCache
+  ) {
+    return cached.value as Promise<T>;
+  }
+
+  for (const [entryKey, entry] of responseCache) {
+    if (entry.expiresAt <= now) {
+      responseCache.delete(entryKey);
+    }
+  }
+
+  const value = load();
+  responseCache.set(cacheKey, {
+    expiresAt: now + env.INFISICAL_CACHE_TTL_SECONDS * 1000,
+    value,
+  });
+
+  // failed reads are not cached, so the next call retries
+  value.catch(() => {
+    if (responseCache.get(cacheKey)?.value === value) {
+      responseCache.delete(cacheKey);
+    }
+  });
+
+  return value;
+};
+
+// drops the cached reads of the given projects, or every cached read of the profile when no project is known.
+// project listings are always dropped since they include the environments of every project
+const invalidateCache = (profile: Profile, projectIds: string[]) => {
+  const prefixes = projectIds.length
+    ? [
+        `${profile.name}:projects:`,
+        ...projectIds.flatMap((projectId) => [
+          `${profile.name}:project:${projectId}`,
+          `${profile.name}:secrets:${projectId}:`,
+        ]),
+      ]
+    : [`${profile.name}:`];
+
+  for (const key of responseCache.keys()) {
+    if (prefixes.some((prefix) => key.startsWith(prefix))) {
+      responseCache.delete(key);
+    }
+  }
+};
+
+const listProjects = (
+  type: "secret-manager" | "cert-manager" | "kms" | "ssh" | "all",
+) =>
+  withCache(`projects:${type}`, async () => {
+    const { workspaces } = await callInfisicalApi<{
+      workspaces: Workspace[];
+    }>({
+      method: "GET",
+      url: "/v1/workspace",
+      params: { type },
+    });
+
+    return workspaces.map(formatProject);
+  });
+
+const getProject = (projectId: string) =>
+  withCache(`project:${projectId}`, async () => {
+    const { workspace } = await callInfisicalApi<{
+      workspace: Workspace;
+    }>({
+      method: "GET",
+      url: `/v1/workspace/${projectId}`,
+    });
+
+    return formatProject(workspace);
+  });
+
+// secret tags are referenced by slug in tool arguments, but the API expects their IDs
+const resolveTagIds = async (projectId: string, tagSlugs: string[]) => {
+  const { workspaceTags } = await callInfisicalApi<{
+    workspaceTags: { id: string; slug: string; name: string }[];
+  }>({
+    method: "GET",
+    url: `/v1/workspace/${projectId}/tags`,
+  });
+
+  return tagSlugs.map((tagSlug) => {
+    const tag = workspaceTags.find((t) => t.slug === tagSlug);
+    if (!tag) {
+      throw new Error(
+        `Tag "${tagSlug}" not found. Available tags: ${workspaceTags.map((t) => t.slug).join(", ") || "none"}`,
+      );
+    }
+
+    return tag.id;
+  });
+};
+
+const findEnvironment = async (projectId: string, environmentSlug: string) => {
+  const project = await getProject(projectId);
+
+  const environment = project.environments.find(
+    (e) => e.slug === environmentSlug,
+  );
+  if (!environment) {
+    throw new Error(
+      `Environment "${environmentSlug}" not found in project "${project.slug}". Available environments: ${project.environments.map((e) => e.slug).join(", ")}`,
+    );
+  }
+
+  return environment;
+};
+
+// when Infisical can't find something, check the project and environment of the arguments
+// so the hint can name the value that doesn't exist and the values that do
+const getToolErrorHint = async (error: ToolError, args: unknown) => {
+  const record = (args ?? {}) as Record<string, unknown>;
+  if (
+    (error.status !== 400 && error.status !== 404) ||
+    typeof record.projectId !== "string"
+  ) {
+    return error.hint;
+  }
+
+  let project: Awaited<ReturnType<typeof getProject>>;
+  try {
+    project = await getProject(record.projectId);
+  } catch (err) {
+    const { status } = parseToolError(err);
+    return status === 400 || status === 404
+      ? `Project "${record.projectId}" not found. Use list-projects to find the ID of the project`
+      : error.hint;
+  }
+
+  if (
+    typeof record.environmentSlug === "string" &&
+    !project.environments.some(
+      (environment) => environment.slug === record.environmentSlug,
+    )
+  ) {
+    return `Environment slug "${record.environmentSlug}" not found in project "${project.slug}". Available: ${project.environments.map((environment) => environment.slug).join(", ")}`;
+  }
+
+  return error.hint;
+};
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ENVIRONMENT_SLUG_REGEX = /^[a-z0-9_-]+$/;
+
+// projects can be referenced by ID, slug or name and environments by slug or name,
+// the projects listing is only fetched when a value isn't already an ID or slug
+const resolveProjectReference = async (
+  projectReference: string,
+  environmentReference?: string,
+) => {
+  if (
+    UUID_REGEX.test(projectReference) &&
+    (environmentReference === undefined ||
+      ENVIRONMENT_SLUG_REGEX.test(environmentReference))
+  ) {
+    return {
+      projectId: projectReference,
+      environmentSlug: environmentReference,
+    };
+  }
+
+  const projects = await listProjects("all");
+  const project =
+    projects.find(
+      (p) => p.id === projectReference || p.slug === projectReference,
+    ) ?? projects.find((p) => p.name === projectReference);
+  if (!project) {
+    throw new Error(
+      `Project "${projectReference}" not found. Available projects: ${projects.map((p) => p.slug).join(", ") || "none"}`,
+    );
+  }
+
+  if (environmentReference === undefined) {
+    return { projectId: project.id, environmentSlug: undefined };
+  }
+
+  const environment =
+    project.environments.find((e) => e.slug === environmentReference) ??
+    project.environments.find(
+      (e) => e.name.toLowerCase() === environmentReference.toLowerCase(),
+    );
+  if (!environment) {
+    throw new Error(
+      `Environment "${environmentReference}" not found in project "${project.slug}". Available environments: ${project.environments.map((e) => e.slug).join(", ")}`,
+    );
+  }
+
+  return { projectId: project.id, environmentSlug: environment.slug };
+};
+
+type SessionContext = {
+  projectId?: string;
+  environmentSlug?: string;
+  secretPath?: string;
+};
+
+// contexts set with set-context, per profile and MCP session
+const sessionContexts = new Map<string, SessionContext>();
+
+const getSessionContextKey = () =>
+  `${getProfile().name}:${requestStorage.getStore()?.sessionId ?? ""}`;
+
+const getSessionContext = (): SessionContext => {
+  const { config } = getProfile();
+
+  return {
+    projectId: config.INFISICAL_DEFAULT_PROJECT,
+    environmentSlug: config.INFISICAL_DEFAULT_ENVIRONMENT,
+    secretPath: config.INFISICAL_DEFAULT_SECRET_PATH,
+    ...sessionContexts.get(getSessionContextKey()),
+  };
+};
+
+const clearSessionContexts = (sessionId: string) => {
+  for (const key of sessionContexts.keys()) {
+    if (key.endsWith(`:${sessionId}`)) {
+      sessionContexts.delete(key);
+    }
+  }
+};
+
+type SecretVersion = {
+  id: string;
+  secretId: string;
+  version: number;
+  secretKey: string;
+  secretValue: string;
+  secretComment?: string;
+  createdAt: string;
+  actor?: {
+    actorId?: string;
+    actorType?: string;
+    name?: string;
+  } | null;
+};
+
+const listSecretVersions = async ({
+  projectId,
+  environmentSlug,
+  secretPath,
+  secretName,
+  offset = 0,
+  limit = 100,
+}: {
+  projectId: string;
+  environmentSlug: string;
+  secretPath: string;
+  secretName: string;
+  offset?: number;
+  limit?: number;
+}) => {
+  const secret = await getInfisicalSdk().secrets().getSecret({
+    environment: environmentSlug,
+    projectId,
+    secretName,
+    secretPath,
+    expandSecretReferences: false,
+    includeImports: false,
+    viewSecretValue: false,
+  });
+
+  const { secretVersions } = await callInfisicalApi<{
+    secretVersions: SecretVersion[];
+  }>({
+    method: "GET",
+    url: `/v1/secret/${secret.id}/secret-versions`,
+    params: { offset, limit },
+  });
+
+  return secretVersions.sort((a, b) => b.version - a.version);
+};
+
+const findFolder = async ({
+  projectId,
+  environmentSlug,
+  path: folderPath,
+  name,
+}: {
+  projectId: string;
+  environmentSlug: string;
+  path: string;
+  name: string;
+}) => {
+  const folders = await getInfisicalSdk().folders().listFolders({
+    environment: environmentSlug,
+    projectId,
+    path: folderPath,
+  });
+
+  const folder = folders.find((f) => f.name === name);
+  if (!folder) {
+    throw new Error(
+      `Folder "${name}" not found at path ${folderPath}. Available folders: ${folders.map((f) => f.name).join(", ") || "none"}`,
+    );
+  }
+
+  return folder;
+};
+
+type FolderTreeNode = {
+  name: string;
+  path: string;
+  secretCount: number;
+  folders: FolderTreeNode[];
+};
+
+const getFolderTree = async ({
+  projectId,
+  environmentSlug,
+  path: rootPath,
+  maxDepth,
+}: {
+  projectId: string;
+  environmentSlug: string;
+  path: string;
+  maxDepth: number;
+}) => {
+  // a single recursive listing is cheaper than listing the secrets of every folder
+  const { secrets } = await getInfisicalSdk().secrets().listSecrets({
+    environment: environmentSlug,
+    projectId,
+    secretPath: rootPath,
+    recursive: true,
+    expandSecretReferences: false,
+    includeImports: false,
+    viewSecretValue: false,
+  });
+
+  const secretCounts = new Map<string, number>();
+  for (const secret of secrets) {
+    const secretPath = secret.secretPath ?? rootPath;
+    secretCounts.set(secretPath, (secretCounts.get(secretPath) ?? 0) + 1);
+  }
+
+  const buildNode = async (
+    folderPath: string,
+    name: string,
+    depth: number,
+  ): Promise<FolderTreeNode> => {
+    const folders =
+      depth < maxDepth
+        ? await getInfisicalSdk().folders().listFolders({
+            environment: environmentSlug,
+            projectId,
+            path: folderPath,
+          })
+        : [];
+
+    return {
+      name,
+      path: folderPath,
+      secretCount: secretCounts.get(folderPath) ?? 0,
+      folders: await Promise.all(
+        folders.map((folder) =>
+          buildNode(
+            path.posix.join(folderPath, folder.name),
+            folder.name,
+            depth + 1,
+          ),
+        ),
+      ),
+    };
+  };
+
+  return buildNode(rootPath, path.posix.basename(rootPath) || "/", 0);
+};
+
+type SecretImport = {
+  id: string;
+  importPath: string;
+  importEnv: {
+    id: string;
+    name: string;
+    slug: string;
+  };
+  position: number;
+  isReplication?: boolean;
+  folderId: string;
+};
+
+const listSecretImports = async ({
+  projectId,
+  environmentSlug,
+  path: secretPath,
+}: {
+  projectId: string;
+  environmentSlug: string;
+  path: string;
+}) => {
+  const { secretImports } = await callInfisicalApi<{
+    secretImports: SecretImport[];
+  }>({
+    method: "GET",
+    url: "/v1/secret-imports",
+    params: {
+      workspaceId: projectId,
+      environment: environmentSlug,
+      path: secretPath,
+    },
+  });
+
+  return secretImports.sort((a, b) => a.position - b.position);
+};
+
+// imports are identified by their source since that's what users see in the dashboard
+const findSecretImport = async ({
+  projectId,
+  environmentSlug,
+  path: secretPath,
+  importEnvironmentSlug,
+  importPath,
+}: {
+  projectId: string;
+  environmentSlug: string;
+  path: string;
+  importEnvironmentSlug: string;
+  importPath: string;
+}) => {
+  const secretImports = await listSecretImports({
+    projectId,
+    environmentSlug,
+    path: secretPath,
+  });
+
+  const secretImport = secretImports.find(
+    (i) =>
+      i.importEnv.slug === importEnvironmentSlug && i.importPath === importPath,
+  );
+  if (!secretImport) {
+    throw new Error(
+      `Secret import of ${importEnvironmentSlug}:${importPath} not found at path ${secretPath}. Existing imports: ${secretImports.map((i) => `${i.importEnv.slug}:${i.importPath}`).join(", ") || "none"}`,
+    );
+  }
+
+  return secretImport;
+};
+
+const SECRET_REFERENCE_REGEX = /\$\{([^}]+)\}/g;
+
+// limits how many folders outside of the analyzed scope are fetched to follow references
+const MAX_REFERENCED_FOLDERS = 50;
+
+type SecretReference = {
+  reference: string;
+  environmentSlug: string;
+  secretPath: string;
+  secretKey: string;
+};
+
+const getSecretReferenceId = ({
+  environmentSlug,
+  secretPath,
+  secretKey,
+}: Omit<SecretReference, "reference">) =>
+  `${environmentSlug}:${path.posix.join(secretPath, secretKey)}`;
+
+// ${KEY} references the same folder, ${env.KEY} the root of another environment
+// and ${env.a.b.KEY} the folder /a/b of that environment
+const parseSecretReferences = (
+  secretValue: string,
+  environmentSlug: string,
+  secretPath: string,
+): SecretReference[] =>
+  [...secretValue.matchAll(SECRET_REFERENCE_REGEX)].map(([reference, body]) => {
+    const segments = body.trim().split(".");
+    if (segments.length === 1) {
+      return { reference, environmentSlug, secretPath, secretKey: segments[0] };
+    }
+
+    return {
+      reference,
+      environmentSlug: segments[0],
+      secretPath: path.posix.join("/", ...segments.slice(1, -1)),
+      secretKey: segments[segments.length - 1],
+    };
+  });
+
+const buildSecretReferenceGraph = async ({
+  projectId,
+  scopes,
+}: {
+  projectId: string;
+  scopes: { environmentSlug: string; secretPath: string }[];
+}) => {
+  const secretIds = new Set<string>();
+  const references = new Map<string, SecretReference[]>();
+  const folderErrors = new Map<string, string>();
+  const loadedFolders = new Set<string>();
+  let pendingSecrets: (Secret & { environmentSlug: string })[] = [];
+
+  const isInScope = (environmentSlug: string, secretPath: string) =>
+    scopes.some(
+      (scope) =>
+        scope.environmentSlug === environmentSlug &&
+        (secretPath === scope.secretPath ||
+          secretPath.startsWith(path.posix.join(scope.secretPath, "/"))),
+    );
+
+  const loadSecrets = async (
+    environmentSlug: string,
+    secretPath: string,
+    recursive: boolean,
+  ) => {
+    const { secrets } = await getInfisicalSdk().secrets().listSecrets({
+      environment: environmentSlug,
+      projectId,
+      secretPath,
+      recursive,
+      expandSecretReferences: false,
+      includeImports: false,
+    });
+
+    pendingSecrets.push(
+      ...secrets.map((secret) => ({
+        ...secret,
+        secretPath: secret.secretPath ?? secretPath,
+        environmentSlug,
+      })),
+    );
+  };
+
+  await Promise.all(
+    scopes.map((scope) =>
+      loadSecrets(scope.environmentSlug, scope.secretPath, true),
+    ),
+  );
+
+  while (pendingSecrets.length) {
+    const secrets = pendingSecrets;
+    pendingSecrets = [];
+
+    const referencedFolders = new Map<
+      string,
+      { environmentSlug: string; secretPath: string }
+    >();
+
+    for (const secret of secrets) {
+      const secretId = getSecretReferenceId({
+        environmentSlug: secret.environmentSlug,
+        secretPath: secret.secretPath!,
+        secretKey: secret.secretKey,
+      });
+      const secretReferences = parseSecretReferences(
+        secret.secretValue,
+        secret.environmentSlug,
+        secret.secretPath!,
+      );
+
+      secretIds.add(secretId);
+      references.set(secretId, secretReferences);
+
+      for (const reference of secretReferences) {
+        const folderId = `${reference.environmentSlug}:${reference.secretPath}`;
+        if (
+          !loadedFolders.has(folderId) &&
+          !isInScope(reference.environmentSlug, reference.secretPath)
+        ) {
+          referencedFolders.set(folderId, reference);
+        }
+      }
+    }
+
+    for (const [folderId, folder] of referencedFolders) {
+      loadedFolders.add(folderId);
+
+      if (loadedFolders.size > MAX_REFERENCED_FOLDERS) {
+        folderErrors.set(
+          folderId,
+          `Not analyzed, more than ${MAX_REFERENCED_FOLDERS} referenced folders`,
+        );
+        continue;
+      }
+
+      try {
+        await loadSecrets(folder.environmentSlug, folder.secretPath, false);
+      } catch (err) {
+        if (isUnauthorizedError(err)) {
+          throw err;
+        }
+
+        folderErrors.set(
+          folderId,
+          err instanceof Error ? err.message : String(err),
+        );
+      }
+    }
+  }
+
+  return { secretIds, references, folderErrors };
+};
+
+const findSecretReferenceCycles = (
+  references: Map<string, SecretReference[]>,
+) => {
+  const cycles = new Map<string, string[]>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (secretId: string) => {
+    const stackIndex = stack.indexOf(secretId);
+    if (stackIndex !== -1) {
+      // rotate the cycle so the same cycle found from another secret is only reported once
+      const cycle = stack.slice(stackIndex);
+      const start = cycle.indexOf([...cycle].sort()[0]);
+      const normalized = [...cycle.slice(start), ...cycle.slice(0, start)];
+      cycles.set(normalized.join(" -> "), [...normalized, normalized[0]]);
+      return;
+    }
+
+    if (visited.has(secretId)) {
+      return;
+    }
+
+    visited.add(secretId);
+    stack.push(secretId);
+    for (const reference of references.get(secretId) ?? []) {
+      visit(getSecretReferenceId(reference));
+    }
+    stack.pop();
+  };
+
+  for (const secretId of references.keys()) {
+    visit(secretId);
+  }
+
+  return [...cycles.values()];
+};
+
+// diff-secrets only writes when applying the diff
+const isWriteToolCall = (toolName: string, args?: Record<string, unknown>) =>
+  !READ_ONLY_TOOLS.includes(toolName as AvailableTools) ||
+  (toolName === AvailableTools.DiffSecrets && args?.apply === true);
+
+const isToolEnabled = (toolName: AvailableTools) => {
+  if (env.INFISICAL_READ_ONLY && !READ_ONLY_TOOLS.includes(toolName)) {
+    return false;
+  }
+
+  if (
+    env.INFISICAL_ENABLED_TOOLS.length &&
+    !env.INFISICAL_ENABLED_TOOLS.includes(toolName)
+  ) {
+    return false;
+  }
+
+  return !env.INFISICAL_DISABLED_TOOLS.includes(toolName);
+};
+
+const MASKED_SECRET_VALUE = "********";
+
+const hashSecretValue = (secretValue: string) =>
+  crypto.createHash("sha256").update(secretValue).digest("hex");
+
+// the API returns tag objects and metadata entries even though the SDK types them differently
+const formatSecretDetails = (secret: Secret) => ({
+  secretKey: secret.secretKey,
+  secretValue: secret.secretValue,
+  type: secret.type,
+  secretComment: secret.secretComment || undefined,
+  tags: (secret.tags as (string | { slug: string })[] | undefined)?.map(
+    (tag) => (typeof tag === "string" ? tag : tag.slug),
+  ),
+  secretReminderNote: secret.secretReminderNote || undefined,
+  secretReminderRepeatDays: secret.secretReminderRepeatDays || undefined,
+  secretMetadata: (secret.secretMetadata || undefined) as
+    { key: string; value: string }[] | undefined,
+});
+
+// from the least to the most strict
+const SECRET_REDACTION_MODES = [
+  SecretRedactionMode.None,
+  SecretRedactionMode.Masked,
+  SecretRedactionMode.Fingerprint,
+  SecretRedactionMode.KeysOnly,
+];
+
+// a tool call can make the server's redaction policy stricter, but never looser
+const getRedactionMode = (requested?: SecretRedactionMode) =>
+  requested &&
+  SECRET_REDACTION_MODES.indexOf(requested) >
+    SECRET_REDACTION_MODES.indexOf(env.INFISICAL_SECRET_REDACTION)
+    ? requested
+    : env.INFISICAL_SECRET_REDACTION;
+
+// keep plaintext secret values out of the model context unless explicitly allowed
+const redactSecret = <T extends { secretValue: string }>(
+  secret: T,
+  mode: SecretRedactionMode,
+) => {
+  const { secretValue, ...rest } = secret;
+
+  switch (mode) {
+    case SecretRedactionMode.None:
+      return { ...rest, secretValue };
+    case SecretRedactionMode.Masked:
+      return { ...rest, secretValue: MASKED_SECRET_VALUE };
+    case SecretRedactionMode.Fingerprint:
+      return {
+        ...rest,
+        secretValueLength: secretValue.length,
+        secretValueSha256: hashSecretValue(secretValue),
+      };
+    case SecretRedactionMode.KeysOnly:
+      return rest;
+    default:
+      throw new Error(`Unsupported redaction mode: ${mode}`);
+  }
+};
+
+type BulkSecretOperationResult = {
+  secretName: string;
+  secretPath: string;
+  success: boolean;
+  error?: string;
+};
+
+// runs one batch request per secret path. Atomic operations must target a single path, as the batch endpoints
+// are only transactional within a single request. Otherwise a failed batch is retried secret by secret so one
+// bad secret doesn't block the others
+const runBulkSecretOperation = async <
+  T extends { secretName: string; secretPath: string },
+>({
+  secrets,
+  atomic,
+  batch,
+  single,
+}: {
+  secrets: T[];
+  atomic: boolean;
+  batch: (secretPath: string, secrets: T[]) => Promise<unknown>;
+  single: (secret: T) => Promise<unknown>;
+}) => {
+  const secretsByPath = new Map<string, T[]>();
+  for (const secret of secrets) {
+    secretsByPath.set(secret.secretPath, [
+      ...(secretsByPath.get(secret.secretPath) ?? []),
+      secret,
+    ]);
+  }
+
+  if (atomic && secretsByPath.size > 1) {
+    throw new Error(
+      `Atomic bulk operations must target a single secret path, but got: ${[...secretsByPath.keys()].join(", ")}`,
+    );
+  }
+
+  const results: BulkSecretOperationResult[] = [];
+
+  for (const [secretPath, pathSecrets] of secretsByPath) {
+    try {
+      await batch(secretPath, pathSecrets);
+      results.push(
+        ...pathSecrets.map((secret) => ({
+          secretName: secret.secretName,
+          secretPath,
+          success: true,
+        })),
+      );
+      continue;
+    } catch (err) {
+      if (isUnauthorizedError(err)) {
+        throw err;
+      }
+
+      if (atomic) {
+        results.push(
+          ...pathSecrets.map((secret) => ({
+            secretName: secret.secretName,
+            secretPath,
+            success: false,
+            error: (err as Error).message,
+          })),
+        );
+        continue;
+      }
+    }
+
+    for (const secret of pathSecrets) {
+      try {
+        await single(secret);
+        results.push({
+          secretName: secret.secretName,
+          secretPath,
+          success: true,
+        });
+      } catch (err) {
+        if (isUnauthorizedError(err)) {
+          throw err;
+        }
+
+        results.push({
+          secretName: secret.secretName,
+          secretPath,
+          success: false,
+          error: (err as Error).message,
+        });
+      }
+    }
+  }
+
+  return results;
+};
+
+const createSecretsOperation = (
+  projectId: string,
+  environmentSlug: string,
+) => ({
+  batch: (
+    secretPath: string,
+    secrets: { secretName: string; secretValue: string }[],
+  ) =>
+    callInfisicalApi({
+      method: "POST",
+      url: "/v3/secrets/batch/raw",
+      data: {
+        workspaceId: projectId,
+        environment: environmentSlug,
+        secretPath,
+        secrets: secrets.map((secret) => ({
+          secretKey: secret.secretName,
+          secretValue: secret.secretValue,
+        })),
+      },
+    }),
+  single: (secret: {
+    secretName: string;
+    secretValue: string;
+    secretPath: string;
+  }) =>
+    getInfisicalSdk().secrets().createSecret(secret.secretName, {
+      environment: environmentSlug,
+      projectId,
+      secretPath: secret.secretPath,
+      secretValue: secret.secretValue,
+    }),
+});
+
+const summarizeBulkSecretOperationResults = (
+  results: BulkSecretOperationResult[],
+) => {
+  const failed = results.filter((result) => !result.success).length;
+
+  return { succeeded: results.length - failed, failed, results };
+};
+
+enum SecretFileFormat {
+  Dotenv = "dotenv",
+  Json = "json",
+  Yaml = "yaml",
+  Shell = "shell",
+}
+
+enum ImportConflictPolicy {
+  Skip = "skip",
+  Overwrite = "overwrite",
+  Fail = "fail",
+}
+
+// values that can be written without quotes in both dotenv files and shells
+const UNQUOTED_VALUE_REGEX = /^[A-Za-z0-9_./:@%+,=-]*$/;
+const SECRET_KEY_REGEX = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+// shells don't accept the `.` and `-` that secret keys may contain in variable names
+const SHELL_VARIABLE_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const quoteDotenvValue = (value: string) => {
+  if (value && UNQUOTED_VALUE_REGEX.test(value)) {
+    return value;
+  }
+
+  const escapedValue = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, "\\$")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t");
+
+  return `"${escapedValue}"`;
+};
+
+// single quotes keep everything literal in a shell, including newlines. A single quote itself has to be closed, escaped and reopened
+const quoteShellValue = (value: string) => `'${value.replace(/'/g, "'\\''")}'`;
+
+const formatSecrets = (
+  secrets: { secretKey: string; secretValue: string }[],
+  format: SecretFileFormat,
+) => {
+  const secretsObject = Object.fromEntries(
+    secrets.map((secret) => [secret.secretKey, secret.secretValue]),
+  );
+
+  switch (format) {
+    case SecretFileFormat.Dotenv:
+      return secrets
+        .map(
+          (secret) =>
+            `${secret.secretKey}=${quoteDotenvValue(secret.secretValue)}`,
+        )
+        .join("\n");
+    case SecretFileFormat.Shell: {
+      const invalidKeys = secrets
+        .map((secret) => secret.secretKey)
+        .filter((secretKey) => !SHELL_VARIABLE_REGEX.test(secretKey));
+
+      if (invalidKeys.length) {
+        throw new Error(
+          `Cannot export as shell: ${invalidKeys.join(", ")} ${invalidKeys.length === 1 ? "is not a valid shell variable name" : "are not valid shell variable names"}. Use the dotenv, JSON or YAML format instead`,
+        );
+      }
+
+      return secrets
+        .map(
+          (secret) =>
+            `export ${secret.secretKey}=${quoteShellValue(secret.secretValue)}`,
+        )
+        .join("\n");
+    }
+    case SecretFileFormat.Json:
+      return JSON.stringify(secretsObject, null, 2);
+    case SecretFileFormat.Yaml:
+      return YAML.stringify(secretsObject);
+    default:
+      throw new Error(`Unsupported format: ${format}`);
+  }
+};
+
+// the escapes unescaped inside double quotes, any other backslash is kept as written
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  "\\": "\\",
+  '"': '"',
+  $: "$",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+// shells only unescape the characters that are special inside double quotes, and drop escaped newlines
+const SHELL_DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  "\\": "\\",
+  '"': '"',
+  $: "$",
+  "`": "`",
+  "\n": "",
+};
+
+// parses dotenv files and shell scripts made of `export KEY=value` lines. Values can be unquoted, single-quoted
+// (literal) or double-quoted (with escapes), and quoted values may span multiple lines. In dotenv files only a quote
+// at the start of a value quotes it, while shells concatenate the quoted and unquoted parts of a value
+const parseDotenv = (content: string, format: SecretFileFormat) => {
+  const shellQuoting = format === SecretFileFormat.Shell;
+  const secrets: { secretKey: string; secretValue: string }[] = [];
+  let i = 0;
+
+  const fail = (message: string): never => {
+    const line = content.slice(0, i).split("\n").length;
+    throw new Error(`Invalid dotenv content on line ${line}: ${message}`);
+  };
+
+  while (i < content.length) {
+    const nextNewline = content.indexOf("\n", i);
+    const lineEnd = nextNewline === -1 ? content.length : nextNewline;
+    const line = content.slice(i, lineEnd);
+    const trimmedLine = line.trim();
+
+    if (!trimmedLine || trimmedLine.startsWith("#")) {
+      i = lineEnd + 1;
+      continue;
+    }
+
+    const match = line.match(
+      /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*/,
+    );
+    if (!match) {
+      return fail(`expected KEY=value, got "${trimmedLine}"`);
+    }
+
+    const secretKey = match[1];
+    let secretValue = "";
+    // whitespace is only kept when it's followed by more of the value
+    let pendingWhitespace = "";
+    // a quoted dotenv value ends at its closing quote
+    let isQuotedValue = false;
+    i += match[0].length;
+
+    while (i < content.length && content[i] !== "\n") {
+      const char = content[i];
+
+      if (
+        char === "#" &&
+        (!secretValue || pendingWhitespace || isQuotedValue)
+      ) {
+        // the rest of the line is a comment
+        const commentEnd = content.indexOf("\n", i);
+        i = commentEnd === -1 ? content.length : commentEnd;
+        continue;
+      }
+
+      if (/\s/.test(char)) {
+        pendingWhitespace += char;
+        i += 1;
+        continue;
+      }
+
+      if (isQuotedValue) {
+        fail(`unexpected characters after the quoted value of ${secretKey}`);
+      }
+
+      secretValue += pendingWhitespace;
+      pendingWhitespace = "";
+      const isQuote = shellQuoting || !secretValue;
+
+      if (char === "'" && isQuote) {
+        const end = content.indexOf("'", i + 1);
+        if (end === -1) {
+          fail(`unterminated single-quoted value for ${secretKey}`);
+        }
+        secretValue += content.slice(i + 1, end);
+        i = end + 1;
+        isQuotedValue = !shellQuoting;
+      } else if (char === '"' && isQuote) {
+        i += 1;
+        while (i < content.length && content[i] !== '"') {
+          if (content[i] === "\\" && i + 1 < content.length) {
+            const escapedChar = content[i + 1];
+            secretValue +=
+              (shellQuoting
+                ? SHELL_DOUBLE_QUOTE_ESCAPES
+                : DOUBLE_QUOTE_ESCAPES)[escapedChar] ?? `\\${escapedChar}`;
+            i += 2;
+          } else {
+            secretValue += content[i];
+            i += 1;
+          }
+        }
+        if (i >= content.length) {
+          fail(`unterminated double-quoted value for ${secretKey}`);
+        }
+        i += 1;
+        isQuotedValue = !shellQuoting;
+      } else if (shellQuoting && char === "\\" && content[i + 1] === "'") {
+        secretValue += "'";
+        i += 2;
+      } else {
+        secretValue += char;
+        i += 1;
+      }
+    }
+
+    secrets.push({ secretKey, secretValue });
+    i += 1;
+  }
+
+  return secrets;
+};
+
+const parseSecrets = (content: string, format: SecretFileFormat) => {
+  if (format === SecretFileFormat.Dotenv || format === SecretFileFormat.Shell) {
+    return parseDotenv(content, format);
+  }
+
+  const parsed =
+    format === SecretFileFormat.Json
+      ? JSON.parse(content)
+      : YAML.parse(content);
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(
+      `Invalid ${format} content: expected an object mapping secret names to values`,
+    );
+  }
+
+  return Object.entries(parsed as Record<string, unknown>).map(
+    ([secretKey, secretValue]) => {
+      if (secretValue !== null && typeof secretValue === "object") {
+        throw new Error(
+          `Invalid ${format} content: the value of ${secretKey} must be a string, number or boolean`,
+        );
+      }
+
+      return {
+        secretKey,
+        secretValue: secretValue === null ? "" : String(secretValue),
+      };
+    },
+  );
+};
+
+type ToolJsonSchema = {
+  type: "object";
+  properties: Record<string, object>;
+  required: string[];
+  [key: string]: unknown;
+};
+
+type Tool = {
+  name: AvailableTools;
+  description: string;
+  inputSchema: ToolJsonSchema;
+  outputSchema: ToolJsonSchema;
+  call: (args: unknown) => Promise<Record<string, unknown>>;
+};
+
+// tools/list expects self-contained object schemas. Input schemas are fully inlined so every argument keeps its
+// own description, output schemas reference repeated parts such as the recursive folder tree instead.
+// Input schemas don't allow unknown arguments, while outputs may contain more fields than documented
+const toToolJsonSchema = (
+  schema: z.AnyZodObject,
+  io: "input" | "output",
+): ToolJsonSchema => {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: io === "input" ? "none" : "root",
+    removeAdditionalStrategy: io === "input" ? "passthrough" : "strict",
+  }) as Partial<ToolJsonSchema>;
+
+  return {
+    ...jsonSchema,
+    type: "object",
+    properties: jsonSchema.properties ?? {},
+    required: jsonSchema.required ?? [],
+  };
+};
+
+// each tool is defined once: the zod schemas validate the arguments and type the handler,
+// and the JSON schemas advertised in tools/list are generated from them
+const defineTool = <
+  Input extends z.AnyZodObject,
+  Output extends z.AnyZodObject,
+>({
+  name,
+  description,
+  input,
+  output,
+  handler,
+}: {
+  name: AvailableTools;
+  description: string;
+  input: Input;
+  output: Output;
+  handler: (data: z.infer<Input>) => Promise<z.infer<Output>>;
+}): Tool => ({
+  name,
+  description,
+  inputSchema: toToolJsonSchema(input, "input"),
+  outputSchema: toToolJsonSchema(output, "output"),
+  call: (args) => handler(input.parse(args)),
+});
+
+// depending on the redaction mode, secret values are returned as is, masked, as a fingerprint or not at all
+const redactedSecretValueShape = {
+  secretValue: z.string().optional(),
+  secretValueLength: z.number().optional(),
+  secretValueSha256: z.string().optional(),
+};
+
+const secretOutputSchema = z.object({
+  id: z.string().optional(),
+  secretKey: z.string(),
+  version: z.number().optional(),
+  type: z.nativeEnum(SecretType).optional(),
+  ...redactedSecretValueShape,
+});
+
+const secretDetailsOutputSchema = z.object({
+  secretKey: z.string(),
+  type: z.nativeEnum(SecretType),
+  secretComment: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  secretReminderNote: z.string().optional(),
+  secretReminderRepeatDays: z.number().optional(),
+  secretMetadata: z
+    .array(z.object({ key: z.string(), value: z.string() }))
+    .optional(),
+  ...redactedSecretValueShape,
+});
+
+const environmentOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  position: z.number().optional(),
+});
+
+const projectOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  description: z.string().nullish(),
+  orgId: z.string(),
+  type: z.string(),
+  kmsKeyId: z.string().nullish(),
+  hasDeleteProtection: z.boolean().optional(),
+  environments: z.array(environmentOutputSchema),
+});
+
+const folderOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+const folderTreeNodeOutputSchema: z.ZodType<FolderTreeNode> = z.object({
+  name: z.string(),
+  path: z.string(),
+  secretCount: z.number(),
+  folders: z.array(z.lazy(() => folderTreeNodeOutputSchema)),
+});
+
+const secretImportOutputSchema = z.object({
+  id: z.string(),
+  importPath: z.string(),
+  importEnv: z.object({
+    id: z.string(),
+    name: z.string(),
+    slug: z.string(),
+  }),
+  position: z.number(),
+  isReplication: z.boolean().optional(),
+  folderId: z.string().optional(),
+});
+
+const bulkSecretOperationOutputSchema = z.object({
+  succeeded: z.number(),
+  failed: z.number(),
+  results: z.array(
+    z.object({
+      secretName: z.string(),
+      secretPath: z.string(),
+      success: z.boolean(),
+      error: z.string().optional(),
+    }),
+  ),
+});
+
+const sessionContextOutputSchema = z.object({
+  profile: z.string(),
+  projectId: z.string().optional(),
+  environmentSlug: z.string().optional(),
+  secretPath: z.string().optional(),
+});
+
+const createSecretTool = defineTool({
+  name: AvailableTools.CreateSecret,
+  description: "Create a new secret in Infisical",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to create the secret in (required)"),
+    environmentSlug: z
+      .string()
+      .describe(
+        "The slug of the environment to create the secret in (required)",
+      ),
+    secretName: z
+      .string()
+      .describe("The name of the secret to create (required)"),
+    secretValue: z
+      .string()
+      .optional()
+      .describe("The value of the secret to create"),
+    secretPath: z
+      .string()
+      .default("/")
+      .describe("The path of the secret to create (Defaults to /)"),
+    secretComment: z
+      .string()
+      .optional()
+      .describe("A comment describing the secret"),
+    tagSlugs: z
+      .array(z.string())
+      .optional()
+      .describe("The slugs of the tags to attach to the secret"),
+    type: z
+      .nativeEnum(SecretType)
+      .default(SecretType.Shared)
+      .describe(
+        "Whether to create a shared secret or a personal override of an existing shared secret (Defaults to shared)",
+      ),
+    secretReminderNote: z
+      .string()
+      .optional()
+      .describe("A note to include in the secret rotation reminder"),
+    secretReminderRepeatDays: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe("The interval in days to send secret rotation reminders"),
+    secretMetadata: z
+      .array(z.object({ key: z.string(), value: z.string() }))
+      .optional()
+      .describe("Key-value metadata to attach to the secret"),
+    redaction: z
+      .nativeEnum(SecretRedactionMode)
+      .optional()
+      .describe(
+        "How the value of the created secret is shown in the response. One of `none`, `masked`, `fingerprint` (length and SHA-256 hash) or `keys-only` (Defaults to the server's redaction policy)",
+      ),
+  }),
+  output: z.object({ secret: secretOutputSchema }),
+  handler: async (data) => {
+    const createSecretOptions = {
+      environment: data.environmentSlug,
+      projectId: data.projectId,
+      secretPath: data.secretPath,
+      secretValue: data.secretValue ?? "",
+      secretComment: data.secretComment,
+      tagIds: data.tagSlugs
+        ? await resolveTagIds(data.projectId, data.tagSlugs)
+        : undefined,
+      type: data.type,
+      secretReminderNote: data.secretReminderNote,
+      secretReminderRepeatDays: data.secretReminderRepeatDays,
+    };
+
+    // the SDK doesn't forward secret metadata on creation
+    const { secret } = data.secretMetadata
+      ? await callInfisicalApi<{ secret: Secret }>({
+          method: "POST",
+          url: `/v3/secrets/raw/${encodeURIComponent(data.secretName)}`,
+          data: {
+            ...createSecretOptions,
+            workspaceId: data.projectId,
+            secretMetadata: data.secretMetadata,
+          },
+        })
+      : await getInfisicalSdk()
+          .secrets()
+          .createSecret(data.secretName, createSecretOptions);
+
+    return {
+      secret: redactSecret(secret, getRedactionMode(data.redaction)),
+    };
+  },
+});
+
+const deleteSecretTool = defineTool({
+  name: AvailableTools.DeleteSecret,
+  description: "Delete a secret in Infisical",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to delete the secret from (required)"),
+    environmentSlug: z
+      .string()
+      .describe(
+        "The slug of the environment to delete the secret from (required)",
+      ),
+    secretPath: z
+      .string()
+      .default("/")
+      .describe("The path of the secret to delete (Defaults to /)"),
+    secretName: z
+      .string()
+      .describe("The name of the secret to delete (required)"),
+  }),
+  output: z.object({ secretKey: z.string() }),
+  handler: async (data) => {
+    const { secret } = await getInfisicalSdk()
+      .secrets()
+      .deleteSecret(data.secretName, {
+        environment: data.environmentSlug,
+        projectId: data.projectId,
+        secretPath: data.secretPath,
+      });
+
+    return { secretKey: secret.secretKey };
+  },
+});
+
+const updateSecretTool = defineTool({
+  name: AvailableTools.UpdateSecret,
+  description:
+    "Update a secret in Infisical. Only the provided fields are changed, everything else is kept as is",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to update the secret in (required)"),
+    environmentSlug: z
+      .string()
+      .describe(
+        "The slug of the environment to update the secret in (required)",
+      ),
+    secretName: z
+      .string()
+      .describe("The current name of the secret to update (required)"),
+    newSecretName: z
+      .string()
+      .optional()
+      .describe("The new name of the secret to update (Optional)"),
+    secretValue: z
+      .string()
+      .optional()
+      .describe("The new value of the secret to update (Optional)"),
+    secretPath: z
+      .string()
+      .default("/")
+      .describe("The path of the secret to update (Defaults to /)"),
+    secretComment: z
+      .string()
+      .optional()
+      .describe("The new comment of the secret (Optional)"),
+    tagSlugs: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "The slugs of the tags to set on the secret. Replaces the existing tags (Optional)",
+      ),
+    skipMultilineEncoding: z
+      .boolean()
+      .optional()
+      .describe(
+        "Whether to skip encoding multiline values when the secret is injected (Optional)",
+      ),
+    type: z
+      .nativeEnum(SecretType)
+      .default(SecretType.Shared)
+      .describe(
+        "Whether to update the shared secret or the personal override of the secret (Defaults to shared)",
+      ),
+    secretReminderNote: z
+      .string()
+      .optional()
+      .describe(
+        "The new note to include in the secret rotation reminder (Optional)",
+      ),
+    secretReminderRepeatDays: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe(
+        "The new interval in days to send secret rotation reminders (Optional)",
+      ),
+    secretMetadata: z
+      .array(z.object({ key: z.string(), value: z.string() }))
+      .optional()
+      .describe(
+        "The key-value metadata to set on the secret. Replaces the existing metadata (Optional)",
+      ),
+    expectedVersion: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe(
+        "Only update the secret if its current version matches. Use this to avoid overwriting concurrent changes (Optional)",
+      ),
+    expectedValueSha256: z
+      .string()
+      .optional()
+      .describe(
+        "Only update the secret if the SHA-256 hash of its current, unexpanded value matches, as returned by the `fingerprint` redaction. Use this to avoid overwriting concurrent changes (Optional)",
+      ),
+    redaction: z
+      .nativeEnum(SecretRedactionMode)
+      .optional()
+      .describe(
+        "How the value of the updated secret is shown in the response. One of `none`, `masked`, `fingerprint` (length and SHA-256 hash) or `keys-only` (Defaults to the server's redaction policy)",
+      ),
+  }),
+  output: z.object({ secret: secretOutputSchema }),
+  handler: async (data) => {
+    if (
+      data.expectedVersion !== undefined ||
+      data.expectedValueSha256 !== undefined
+    ) {
+      const currentSecret = await getInfisicalSdk().secrets().getSecret({
+        environment: data.environmentSlug,
+        projectId: data.projectId,
+        secretName: data.secretName,
+        secretPath: data.secretPath,
+        type: data.type,
+        expandSecretReferences: false,
+        includeImports: false,
+      });
+
+      if (
+        data.expectedVersion !== undefined &&
+        currentSecret.version !== data.expectedVersion
+      ) {
+        throw new Error(
+          `Secret ${data.secretName} was not updated: expected version ${data.expectedVersion}, but the current version is ${currentSecret.version}. It was changed by someone else, fetch it again before updating`,
+        );
+      }
+
+      if (
+        data.expectedValueSha256 !== undefined &&
+        hashSecretValue(currentSecret.secretValue) !==
+          data.expectedValueSha256.toLowerCase()
+      ) {
+        throw new Error(
+          `Secret ${data.secretName} was not updated: its current value doesn't match the expected SHA-256 hash. It was changed by someone else, fetch it again before updating`,
+        );
+      }
+    }
+
+    const updateSecretOptions = {
+      environment: data.environmentSlug,
+      projectId: data.projectId,
+      secretPath: data.secretPath,
+      newSecretName: data.newSecretName,
+      secretValue: data.secretValue,
+      secretComment: data.secretComment,
+      tagIds: data.tagSlugs
+        ? await resolveTagIds(data.projectId, data.tagSlugs)
+        : undefined,
+      skipMultilineEncoding: data.skipMultilineEncoding,
+      type: data.type,
+      secretReminderNote: data.secretReminderNote,
+      secretReminderRepeatDays: data.secretReminderRepeatDays,
+    };
+
+    // the SDK doesn't forward secret metadata on updates either
+    const { secret } = data.secretMetadata
+      ? await callInfisicalApi<{ secret: Secret }>({
+          method: "PATCH",
+          url: `/v3/secrets/raw/${encodeURIComponent(data.secretName)}`,
+          data: {
+            ...updateSecretOptions,
+            workspaceId: data.projectId,
+            secretMetadata: data.secretMetadata,
+          },
+        })
+      : await getInfisicalSdk()
+          .secrets()
+          .updateSecret(data.secretName, updateSecretOptions);
+
+    return {
+      secret: redactSecret(secret, getRedactionMode(data.redaction)),
+    };
+  },
+});
+
+const listSecretsTool = defineTool({
+  name: AvailableTools.ListSecrets,
+  description: "List all secrets in a given Infisical project and environment",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to list the secrets from (required)"),
+    environmentSlug: z
+      .string()
+      .describe(
+        "The slug of the environment to list the secrets from (required)",
+      ),
+    secretPath: z
+      .string()
+      .default("/")
+      .describe("The path of the secrets to list (Defaults to /)"),
+    expandSecretReferences: z
+      .boolean()
+      .default(true)
+      .describe("Whether to expand secret references (Defaults to true)"),
+    includeImports: z
+      .boolean()
+      .default(true)
+      .describe("Whether to include secret imports (Defaults to true)"),
+    tagSlugs: z
+      .array(z.string())
+      .optional()
+      .describe("Only list secrets that have all of these tag slugs"),
+    redaction: z
+      .nativeEnum(SecretRedactionMode)
+      .optional()
+      .describe(
+        "How secret values are shown in the response. One of `none`, `masked`, `fingerprint` (length and SHA-256 hash) or `keys-only` (Defaults to the server's redaction policy)",
+      ),
+  }),
+  output: z.object({
+    secrets: z.array(secretDetailsOutputSchema),
+    imports: z
+      .array(
+        z.object({
+          environment: z.string(),
+          secretPath: z.string(),
+          folderId: z.string().optional(),
+          secrets: z.array(secretDetailsOutputSchema),
+        }),
+      )
+      .optional(),
+  }),
+  handler: async (data) => {
+    const options = {
+      environment: data.environmentSlug,
+      projectId: data.projectId,
+      secretPath: data.secretPath,
+      expandSecretReferences: data.expandSecretReferences,
+      includeImports: data.includeImports,
+      tagSlugs: data.tagSlugs,
+    };
+
+    const secrets = await withCache(
+      `secrets:${data.projectId}:list:${JSON.stringify(options)}`,
+      () => getInfisicalSdk().secrets().listSecrets(options),
+    );
+
+    const redaction = getRedactionMode(data.redaction);
+
+    return {
+      secrets: secrets.secrets.map((secret) =>
+        redactSecret(formatSecretDetails(secret), redaction),
+      ),
+      ...(secrets.imports && {
+        imports: secrets.imports?.map((imp) => {
+          const parsedImportSecrets = imp.secrets.map((secret) =>
+            redactSecret(formatSecretDetails(secret), redaction),
+          );
+
+          return {
+            ...imp,
+            secrets: parsedImportSecrets,
+          };
+        }),
+      }),
+    };
+  },
+});
+
+const getSecretTool = defineTool({
+  name: AvailableTools.GetSecret,
+  description: "Get a secret in Infisical",
+  input: z.object({
+    secretName: z.string().describe("The name of the secret to get (required)"),
+    projectId: z
+      .string()
+      .describe("The ID of the project to get the secret from (required)"),
+    environmentSlug: z
+      .string()
+      .describe(
+        "The slug of the environment to get the secret from (required)",
+      ),
+    secretPath: z
+      .string()
+      .default("/")
+      .describe("The path of the secret to get (Defaults to /)"),
+    expandSecretReferences: z
+      .boolean()
+      .default(true)
+      .describe("Whether to expand secret references (Defaults to true)"),
+    includeImports: z
+      .boolean()
+      .default(true)
+      .describe(
+        "Whether to include secret imports. If the secret isn't found, it will try to find a secret in a secret import that matches the requested secret name (Defaults to true)",
+      ),
+    redaction: z
+      .nativeEnum(SecretRedactionMode)
+      .optional()
+      .describe(
+        "How the secret value is shown in the response. One of `none`, `masked`, `fingerprint` (length and SHA-256 hash) or `keys-only` (Defaults to the server's redaction policy)",
+      ),
+  }),
+  output: z.object({ secret: secretOutputSchema }),
+  handler: async (data) => {
+    const options = {
+      environment: data.environmentSlug,
+      projectId: data.projectId,
+      secretName: data.secretName,
+      secretPath: data.secretPath,
+      expandSecretReferences: data.expandSecretReferences,
+      includeImports: data.includeImports,
+    };
+
+    const secret = await withCache(
+      `secrets:${data.projectId}:get:${JSON.stringify(options)}`,
+      () => getInfisicalSdk().secrets().getSecret(options),
+    );
+
+    return {
+      secret: redactSecret(secret, getRedactionMode(data.redaction)),
+    };
+  },
+});
+
+const createProjectTool = defineTool({
+  name: AvailableTools.CreateProject,
+  description: "Create a new project in Infisical",
+  input: z.object({
+    projectName: z
+      .string()
+      .describe("The name of the project to create (required)"),
+    type: z
+      .enum(["secret-manager", "cert-manager", "kms", "ssh"])
+      .describe(
+        "The type of project to create (required). If not specified by the user, ask them to confirm the type they want to use.",
+      ),
+    description: z
+      .string()
+      .optional()
+      .describe("The description of the project to create"),
+    slug: z.string().optional().describe("The slug of the project to create"),
+    projectTemplate: z
+      .string()
+      .optional()
+      .describe("The template of the project to create"),
+    kmsKeyId: z
+      .string()
+      .optional()
+      .describe(
+        "The ID of the KMS key to use for the project. Defaults to Infisical's default KMS",
+      ),
+  }),
+  output: z.object({
+    project: z.object({
+      id: z.string(),
+      name: z.string(),
+      slug: z.string(),
+      description: z.string().nullish(),
+      type: z.string(),
+    }),
+  }),
+  handler: async (data) => {
+    const project = await getInfisicalSdk().projects().create({
+      projectName: data.projectName,
+      projectDescription: data.description,
+      kmsKeyId: data.kmsKeyId,
+      slug: data.slug,
+      template: data.projectTemplate,
+      type: data.type,
+    });
+
+    return { project };
+  },
+});
+
+const createEnvironmentTool = defineTool({
+  name: AvailableTools.CreateEnvironment,
+  description: "Create a new environment in Infisical",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe(
+        "The ID of the project to create the environment in (required)",
+      ),
+    name: z
+      .string()
+      .describe("The name of the environment to create (required)"),
+    slug: z
+      .string()
+      .describe("The slug of the environment to create (required)"),
+    position: z
+      .number()
+      .optional()
+      .describe("The position of the environment to create"),
+  }),
+  output: z.object({ environment: environmentOutputSchema }),
+  handler: async (data) => {
+    const environment = await getInfisicalSdk().environments().create({
+      projectId: data.projectId,
+      name: data.name,
+      slug: data.slug,
+      position: data.position,
+    });
+
+    return { environment };
+  },
+});
+
+const createFolderTool = defineTool({
+  name: AvailableTools.CreateFolder,
+  description: "Create a new folder in Infisical",
+  input: z.object({
+    description: z
+      .string()
+      .optional()
+      .describe("The description of the folder to create"),
+    environment: z
+      .string()
+      .describe("The environment to create the folder in (required)"),
+    name: z.string().describe("The name of the folder to create (required)"),
+    path: z
+      .string()
+      .default("/")
+      .describe("The path to create the folder in (Defaults to /)"),
+    projectId: z
+      .string()
+      .describe("The project to create the folder in (required)"),
+  }),
+  output: z.object({ folder: folderOutputSchema }),
+  handler: async (data) => {
+    const folder = await getInfisicalSdk().folders().create({
+      description: data.description,
+      environment: data.environment,
+      name: data.name,
+      path: data.path,
+      projectId: data.projectId,
+    });
+
+    return { folder };
+  },
+});
+
+const inviteMembersToProjectTool = defineTool({
+  name: AvailableTools.InviteMembersToProject,
+  description: "Invite members to a project in Infisical",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to invite members to (required)"),
+    emails: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "The emails of the members to invite. Either usernames or emails must be provided.",
+      ),
+    usernames: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "The usernames of the members to invite. Either usernames or emails must be provided.",
+      ),
+    roleSlugs: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "The role slugs of the members to invite. If not provided, the default role 'member' will be used. Ask the user to confirm the role they want to use if not explicitly specified.",
+      ),
+  }),
+  output: z.object({
+    memberships: z.array(
+      z.object({
+        id: z.string(),
+        userId: z.string().optional(),
+        projectId: z.string().optional(),
+        role: z.string().optional(),
+        status: z.string().optional(),
+      }),
+    ),
+  }),
+  handler: async (data) => {
+    const memberships = await getInfisicalSdk().projects().inviteMembers({
+      projectId: data.projectId,
+      emails: data.emails,
+      usernames: data.usernames,
+      roleSlugs: data.roleSlugs,
+    });
+
+    return { memberships };
+  },
+});
+
+const listProjectsTool = defineTool({
+  name: AvailableTools.ListProjects,
+  description:
+    "List all projects in Infisical that the machine identity has access to. If the user asks to list all projects, use the `all` type parameter.",
+  input: z.object({
+    type: z
+      .enum(["secret-manager", "cert-manager", "kms", "ssh", "all"])
+      .default("all")
+      .describe(
+        "The type of projects to retrieve. If not specified, `all` projects will be retrieved.",
+      ),
+  }),
+  output: z.object({ projects: z.array(projectOutputSchema) }),
+  handler: async (data) => ({ projects: await listProjects(data.type) }),
+});
+
+const bulkCreateSecretsTool = defineTool({
+  name: AvailableTools.BulkCreateSecrets,
+  description:
+    "Create multiple secrets in Infisical in a single call. Returns a result for each secret",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to create the secrets in (required)"),
+    environmentSlug: z
+      .string()
+      .describe(
+        "The slug of the environment to create the secrets in (required)",
+      ),
+    secrets: z
+      .array(
+        z.object({
+          secretName: z
+            .string()
+            .describe("The name of the secret to create (required)"),
+          secretValue: z
+            .string()
+            .default("")
+            .describe("The value of the secret to create"),
+          secretPath: z
+            .string()
+            .default("/")
+            .describe("The path of the secret to create (Defaults to /)"),
+        }),
+      )
+      .min(1)
+      .describe("The secrets to create (required)"),
+    atomic: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Whether all secrets should be created or none at all. Atomic operations must target a single secret path (Defaults to false)",
+      ),
+  }),
+  output: bulkSecretOperationOutputSchema,
+  handler: async (data) => {
+    const results = await runBulkSecretOperation({
+      secrets: data.secrets,
+      atomic: data.atomic,
+      ...createSecretsOperation(data.projectId, data.environmentSlug),
+    });
+
+    return summarizeBulkSecretOperationResults(results);
+  },
+});
+
+const bulkUpdateSecretsTool = defineTool({
+  name: AvailableTools.BulkUpdateSecrets,
+  description:
+    "Update the values of multiple secrets in Infisical in a single call. Returns a result for each secret",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to update the secrets in (required)"),
+    environmentSlug: z
+      .string()
+      .describe(
+        "The slug of the environment to update the secrets in (required)",
+      ),
+    secrets: z
+      .array(
+        z.object({
+          secretName: z
+            .string()
+            .describe("The name of the secret to update (required)"),
+          secretValue: z
+            .string()
+            .describe("The new value of the secret (required)"),
+          secretPath: z
+            .string()
+            .default("/")
+            .describe("The path of the secret to update (Defaults to /)"),
+        }),
+      )
+      .min(1)
+      .describe("The secrets to update (required)"),
+    atomic: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Whether all secrets should be updated or none at all. Atomic operations must target a single secret path (Defaults to false)",
+      ),
+  }),
+  output: bulkSecretOperationOutputSchema,
+  handler: async (data) => {
+    const results = await runBulkSecretOperation({
+      secrets: data.secrets,
+      atomic: data.atomic,
+      batch: (secretPath, secrets) =>
+        callInfisicalApi({
+          method: "PATCH",
+          url: "/v3/secrets/batch/raw",
+          data: {
+            workspaceId: data.projectId,
+            environment: data.environmentSlug,
+            secretPath,
+            secrets: secrets.map((secret) => ({
+              secretKey: secret.secretName,
+              secretValue: secret.secretValue,
+            })),
+          },
+        }),
+      single: (secret) =>
+        getInfisicalSdk().secrets().updateSecret(secret.secretName, {
+          environment: data.environmentSlug,
+          projectId: data.projectId,
+          secretPath: secret.secretPath,
+          secretValue: secret.secretValue,
+        }),
+    });
+
+    return summarizeBulkSecretOperationResults(results);
+  },
+});
+
+const bulkDeleteSecretsTool = defineTool({
+  name: AvailableTools.BulkDeleteSecrets,
+  description:
+    "Delete multiple secrets in Infisical in a single call. Returns a result for each secret",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to delete the secrets from (required)"),
+    environmentSlug: z
+      .string()
+      .describe(
+        "The slug of the environment to delete the secrets from (required)",
+      ),
+    secrets: z
+      .array(
+        z.object({
+          secretName: z
+            .string()
+            .describe("The name of the secret to delete (required)"),
+          secretPath: z
+            .string()
+            .default("/")
+            .describe("The path of the secret to delete (Defaults to /)"),
+        }),
+      )
+      .min(1)
+      .describe("The secrets to delete (required)"),
+    atomic: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Whether all secrets should be deleted or none at all. Atomic operations must target a single secret path (Defaults to false)",
+      ),
+  }),
+  output: bulkSecretOperationOutputSchema,
+  handler: async (data) => {
+    const results = await runBulkSecretOperation({
+      secrets: data.secrets,
+      atomic: data.atomic,
+      batch: (secretPath, secrets) =>
+        callInfisicalApi({
+          method: "DELETE",
+          url: "/v3/secrets/batch/raw",
+          data: {
+            workspaceId: data.projectId,
+            environment: data.environmentSlug,
+            secretPath,
+            secrets: secrets.map((secret) => ({
+              secretKey: secret.secretName,
+            })),
+          },
+        }),
+      single: (secret) =>
+        getInfisicalSdk().secrets().deleteSecret(secret.secretName, {
+          environment: data.environmentSlug,
+          projectId: data.projectId,
+          secretPath: secret.secretPath,
+        }),
+    });
+
+    return summarizeBulkSecretOperationResults(results);
+  },
+});
+
+const exportSecretsTool = defineTool({
+  name: AvailableTools.ExportSecrets,
+  description:
+    "Export the secrets of an Infisical project, environment and path as a dotenv, JSON, YAML or shell file",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to export the secrets from (required)"),
+    environmentSlug: z
+      .string()
+      .describe(
+        "The slug of the environment to export the secrets from (required)",
+      ),
+    secretPath: z
+      .string()
+      .default("/")
+      .describe("The path of the secrets to export (Defaults to /)"),
+    format: z
+      .nativeEnum(SecretFileFormat)
+      .default(SecretFileFormat.Dotenv)
+      .describe(
+        "The format to export the secrets in. `shell` renders `export KEY='value'` lines and fails if a key isn't a valid shell variable name (Defaults to dotenv)",
+      ),
+    expandSecretReferences: z
+      .boolean()
+      .default(true)
+      .describe("Whether to expand secret references (Defaults to true)"),
+    redaction: z
+      .nativeEnum(SecretRedactionMode)
+      .optional()
+      .describe(
+        "How secret values are rendered. One of `none`, `masked`, `fingerprint` (SHA-256 hash) or `keys-only` (empty values) (Defaults to the server's redaction policy)",
+      ),
+  }),
+  output: z.object({
+    format: z.nativeEnum(SecretFileFormat),
+    secretCount: z.number(),
+    content: z.string().describe("The exported file content"),
+  }),
+  handler: async (data) => {
+    const { secrets } = await getInfisicalSdk().secrets().listSecrets({
+      environment: data.environmentSlug,
+      projectId: data.projectId,
+      secretPath: data.secretPath,
+      expandSecretReferences: data.expandSecretReferences,
+      includeImports: false,
+    });
+
+    const redaction = getRedactionMode(data.redaction);
+
+    const exportedSecrets = secrets.map((secret) => {
+      const { secretValue, secretValueSha256 } = redactSecret(
+        { secretValue: secret.secretValue },
+        redaction,
+      ) as { secretValue?: string; secretValueSha256?: string };
+
+      return {
+        secretKey: secret.secretKey,
+        secretValue:
+          secretValue ??
+          (secretValueSha256 ? `sha256:${secretValueSha256}` : ""),
+      };
+    });
+
+    return {
+      format: data.format,
+      secretCount: exportedSecrets.length,
+      content: formatSecrets(exportedSecrets, data.format),
+    };
+  },
+});
+
+const importSecretsTool = defineTool({
+  name: AvailableTools.ImportSecrets,
+  description:
+    "Import secrets from dotenv, JSON, YAML or shell file content into an Infisical project, environment and path",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to import the secrets into (required)"),
+    environmentSlug: z
+      .string()
+      .describe(
+        "The slug of the environment to import the secrets into (required)",
+      ),
+    secretPath: z
+      .string()
+      .default("/")
+      .describe("The path to import the secrets into (Defaults to /)"),
+    format: z
+      .nativeEnum(SecretFileFormat)
+      .default(SecretFileFormat.Dotenv)
+      .describe(
+        "The format of the content. JSON and YAML content must be an object mapping secret names to values (Defaults to dotenv)",
+      ),
+    content: z.string().describe("The file content to import (required)"),
+    conflictPolicy: z
+      .nativeEnum(ImportConflictPolicy)
+      .default(ImportConflictPolicy.Skip)
+      .describe(
+        "What to do with secrets that already exist. `skip` leaves them unchanged, `overwrite` updates their value and `fail` aborts the import before anything is changed (Defaults to skip)",
+      ),
+  }),
+  output: z.object({
+    results: z.array(
+      z.object({
+        secretKey: z.string(),
+        status: z.enum(["created", "updated", "skipped", "failed"]),
+        error: z.string().optional(),
+      }),
+    ),
+  }),
+  handler: async (data) => {
+    const importedSecrets = parseSecrets(data.content, data.format);
+
+    const invalidSecretKeys = importedSecrets
+      .map((secret) => secret.secretKey)
+      .filter((secretKey) => !SECRET_KEY_REGEX.test(secretKey));
+    if (invalidSecretKeys.length) {
+      throw new Error(`Invalid secret names: ${invalidSecretKeys.join(", ")}`);
+    }
+
+    const { secrets: existingSecrets } = await getInfisicalSdk()
+      .secrets()
+      .listSecrets({
+        environment: data.environmentSlug,
+        projectId: data.projectId,
+        secretPath: data.secretPath,
+        expandSecretReferences: false,
+        includeImports: false,
+        viewSecretValue: false,
+      });
+    const existingSecretKeys = new Set(
+      existingSecrets.map((secret) => secret.secretKey),
+    );
+
+    const conflictingSecretKeys = importedSecrets
+      .map((secret) => secret.secretKey)
+      .filter((secretKey) => existingSecretKeys.has(secretKey));
+    if (
+      data.conflictPolicy === ImportConflictPolicy.Fail &&
+      conflictingSecretKeys.length
+    ) {
+      throw new Error(
+        `Import aborted, nothing was changed. The following secrets already exist at ${data.secretPath}: ${conflictingSecretKeys.join(", ")}`,
+      );
+    }
+
+    const results: {
+      secretKey: string;
+      status: "created" | "updated" | "skipped" | "failed";
+      error?: string;
+    }[] = [];
+
+    for (const secret of importedSecrets) {
+      const exists = existingSecretKeys.has(secret.secretKey);
+
+      if (exists && data.conflictPolicy === ImportConflictPolicy.Skip) {
+        results.push({ secretKey: secret.secretKey, status: "skipped" });
+        continue;
+      }
+
+      try {
+        if (exists) {
+          await getInfisicalSdk().secrets().updateSecret(secret.secretKey, {
+            environment: data.environmentSlug,
+            projectId: data.projectId,
+            secretPath: data.secretPath,
+            secretValue: secret.secretValue,
+          });
+        } else {
+          await getInfisicalSdk().secrets().createSecret(secret.secretKey, {
+            environment: data.environmentSlug,
+            projectId: data.projectId,
+            secretPath: data.secretPath,
+            secretValue: secret.secretValue,
+          });
+        }
+
+        results.push({
+          secretKey: secret.secretKey,
+          status: exists ? "updated" : "created",
+        });
+      } catch (err) {
+        if (isUnauthorizedError(err)) {
+          throw err;
+        }
+
+        results.push({
+          secretKey: secret.secretKey,
+          status: "failed",
+          error: (err as Error).message,
+        });
+      }
+    }
+
+    return { results };
+  },
+});
+
+const secretsTargetSchema = z.object({
+  projectId: z
+    .string()
+    .describe("The ID, slug or name of the project (required)"),
+  environmentSlug: z
+    .string()
+    .describe("The slug or name of the environment (required)"),
+  secretPath: z
+    .string()
+    .default("/")
+    .describe("The path of the secrets (Defaults to /)"),
+});
+
+const diffSecretsTool = defineTool({
+  name: AvailableTools.DiffSecrets,
+  description:
+    "Compare the secrets of two Infisical environments or paths without revealing their values. Returns the keys that only exist on one side and the keys whose values differ. Optionally copies the missing secrets from the source to the target",
+  input: z.object({
+    source: secretsTargetSchema.describe(
+      "The project, environment and path to compare from (required)",
+    ),
+    target: secretsTargetSchema.describe(
+      "The project, environment and path to compare against (required)",
+    ),
+    expandSecretReferences: z
+      .boolean()
+      .default(true)
+      .describe(
+        "Whether to expand secret references before comparing values (Defaults to true)",
+      ),
+    includeImports: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Whether to include secrets from secret imports. Secrets defined at the path take precedence over imported secrets (Defaults to false)",
+      ),
+    apply: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Whether to copy the secrets that only exist in the source to the target. Secrets with different values are never overwritten. Confirm with the user before applying (Defaults to false)",
+      ),
+  }),
+  output: z.object({
+    onlyInSource: z.array(z.string()),
+    onlyInTarget: z.array(z.string()),
+    differentValues: z.array(z.string()),
+    identicalCount: z.number(),
+    copied: bulkSecretOperationOutputSchema
+      .optional()
+      .describe(
+        "The result of copying the secrets that only exist in the source, when applied",
+      ),
+  }),
+  handler: async (data) => {
+    // applying a diff creates secrets, so it's only allowed where bulk-create-secrets is
+    if (data.apply && !isToolEnabled(AvailableTools.BulkCreateSecrets)) {
+      throw new Error(
+        `Applying a diff is disabled because the ${AvailableTools.BulkCreateSecrets} tool is disabled on this server. Enabled tools are controlled by INFISICAL_READ_ONLY, INFISICAL_ENABLED_TOOLS and INFISICAL_DISABLED_TOOLS`,
+      );
+    }
+
+    const getSecretValuesByKey = async (
+      target: z.infer<typeof secretsTargetSchema>,
+      expandSecretReferences: boolean,
+    ) => {
+      const { secrets, imports } = await getInfisicalSdk()
+        .secrets()
+        .listSecrets({
+          environment: target.environmentSlug,
+          projectId: target.projectId,
+          secretPath: target.secretPath,
+          expandSecretReferences,
+          includeImports: data.includeImports,
+        });
+
+      return new Map(
+        [...(imports ?? []).flatMap((imp) => imp.secrets), ...secrets].map(
+          (secret) => [secret.secretKey, secret.secretValue],
+        ),
+      );
+    };
+
+    const [sourceSecrets, targetSecrets] = await Promise.all([
+      getSecretValuesByKey(data.source, data.expandSecretReferences),
+      getSecretValuesByKey(data.target, data.expandSecretReferences),
+    ]);
+
+    const onlyInSource = [...sourceSecrets.keys()].filter(
+      (secretKey) => !targetSecrets.has(secretKey),
+    );
+    const onlyInTarget = [...targetSecrets.keys()].filter(
+      (secretKey) => !sourceSecrets.has(secretKey),
+    );
+    const sharedKeys = [...sourceSecrets.keys()].filter((secretKey) =>
+      targetSecrets.has(secretKey),
+    );
+    const differentValues = sharedKeys.filter(
+      (secretKey) =>
+        hashSecretValue(sourceSecrets.get(secretKey)!) !==
+        hashSecretValue(targetSecrets.get(secretKey)!),
+    );
+
+    const diff = {
+      onlyInSource,
+      onlyInTarget,
+      differentValues,
+      identicalCount: sharedKeys.length - differentValues.length,
+    };
+
+    if (!data.apply || !onlyInSource.length) {
+      return diff;
+    }
+
+    // copy the raw values so secret references resolve against the target environment
+    const rawSourceSecrets = data.expandSecretReferences
+      ? await getSecretValuesByKey(data.source, false)
+      : sourceSecrets;
+
+    const results = await runBulkSecretOperation({
+      secrets: onlyInSource.map((secretKey) => ({
+        secretName: secretKey,
+        secretValue: rawSourceSecrets.get(secretKey) ?? "",
+        secretPath: data.target.secretPath,
+      })),
+      atomic: false,
+      ...createSecretsOperation(
+        data.target.projectId,
+        data.target.environmentSlug,
+      ),
+    });
+
+    return {
+      ...diff,
+      copied: summarizeBulkSecretOperationResults(results),
+    };
+  },
+});
+
+const listSecretVersionsTool = defineTool({
+  name: AvailableTools.ListSecretVersions,
+  description:
+    "List the versions of a secret in Infisical, newest first, with the version number, timestamp and the actor who made the change",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project the secret is in (required)"),
+    environmentSlug: z
+      .string()
+      .describe("The slug of the environment the secret is in (required)"),
+    secretPath: z
+      .string()
+      .default("/")
+      .describe("The path of the secret (Defaults to /)"),
+    secretName: z
+      .string()
+      .describe("The name of the secret to list the versions of (required)"),
+    offset: z
+      .number()
+      .int()
+      .min(0)
+      .default(0)
+      .describe("The number of versions to skip (Defaults to 0)"),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(20)
+      .describe(
+        "The maximum number of versions to return, up to 100 (Defaults to 20)",
+      ),
+    redaction: z
+      .nativeEnum(SecretRedactionMode)
+      .optional()
+      .describe(
+        "How the value of each version is shown in the response. Use `fingerprint` to only compare versions by their SHA-256 hash (Defaults to the server's redaction policy)",
+      ),
+  }),
+  output: z.object({
+    versions: z.array(
+      z.object({
+        version: z.number(),
+        createdAt: z.string(),
+        actor: z
+          .object({
+            actorType: z.string().optional(),
+            actorId: z.string().optional(),
+            name: z.string().optional(),
+          })
+          .nullable(),
+        ...redactedSecretValueShape,
+      }),
+    ),
+  }),
+  handler: async (data) => {
+    const secretVersions = await listSecretVersions({
+      projectId: data.projectId,
+      environmentSlug: data.environmentSlug,
+      secretPath: data.secretPath,
+      secretName: data.secretName,
+      offset: data.offset,
+      limit: data.limit,
+    });
+
+    const redaction = getRedactionMode(data.redaction);
+
+    return {
+      versions: secretVersions.map((secretVersion) =>
+        redactSecret(
+          {
+            version: secretVersion.version,
+            createdAt: secretVersion.createdAt,
+            actor: secretVersion.actor
+              ? {
+                  actorType: secretVersion.actor.actorType,
+                  actorId: secretVersion.actor.actorId,
+                  name: secretVersion.actor.name,
+                }
+              : null,
+            secretValue: secretVersion.secretValue,
+          },
+          redaction,
+        ),
+      ),
+    };
+  },
+});
+
+const rollbackSecretTool = defineTool({
+  name: AvailableTools.RollbackSecret,
+  description:
+    "Restore the value of a secret in Infisical to a previous version. This creates a new version with the restored value. Confirm the version with the user before rolling back",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project the secret is in (required)"),
+    environmentSlug: z
+      .string()
+      .describe("The slug of the environment the secret is in (required)"),
+    secretPath: z
+      .string()
+      .default("/")
+      .describe("The path of the secret (Defaults to /)"),
+    secretName: z
+      .string()
+      .describe("The name of the secret to roll back (required)"),
+    version: z
+      .number()
+      .int()
+      .min(1)
+      .describe(
+        "The version to restore, as returned by list-secret-versions (required)",
+      ),
+  }),
+  output: z.object({
+    secretName: z.string(),
+    restoredVersion: z.number().describe("The version that was restored"),
+    version: z
+      .number()
+      .describe("The new version of the secret with the restored value"),
+  }),
+  handler: async (data) => {
+    // versions are listed newest first, so paging stops once it reaches the requested version
+    const limit = 100;
+    const secretVersions: SecretVersion[] = [];
+    let secretVersion: SecretVersion | undefined;
+    for (let offset = 0; ; offset += limit) {
+      const page = await listSecretVersions({
+        projectId: data.projectId,
+        environmentSlug: data.environmentSlug,
+        secretPath: data.secretPath,
+        secretName: data.secretName,
+        offset,
+        limit,
+      });
+      secretVersions.push(...page);
+
+      secretVersion = page.find((v) => v.version === data.version);
+      if (
+        secretVersion ||
+        page.length < limit ||
+        page.some((v) => v.version < data.version)
+      ) {
+        break;
+      }
+    }
+
+    if (!secretVersion) {
+      throw new Error(
+        `Version ${data.version} of secret ${data.secretName} not found. Available versions: ${secretVersions.map((v) => v.version).join(", ")}`,
+      );
+    }
+
+    const { secret } = await getInfisicalSdk()
+      .secrets()
+      .updateSecret(data.secretName, {
+        environment: data.environmentSlug,
+        projectId: data.projectId,
+        secretPath: data.secretPath,
+        secretValue: secretVersion.secretValue,
+      });
+
+    return {
+      secretName: data.secretName,
+      restoredVersion: data.version,
+      version: secret.version,
+    };
+  },
+});
+
+const listFoldersTool = defineTool({
+  name: AvailableTools.ListFolders,
+  description: "List the folders at a path in an Infisical environment",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to list the folders of (required)"),
+    environmentSlug: z
+      .string()
+      .describe(
+        "The slug of the environment to list the folders of (required)",
+      ),
+    path: z
+      .string()
+      .default("/")
+      .describe("The path to list the folders at (Defaults to /)"),
+  }),
+  output: z.object({
+    folders: z.array(folderOutputSchema.extend({ path: z.string() })),
+  }),
+  handler: async (data) => {
+    const folders = await getInfisicalSdk().folders().listFolders({
+      environment: data.environmentSlug,
+      projectId: data.projectId,
+      path: data.path,
+    });
+
+    return {
+      folders: folders.map((folder) => ({
+        id: folder.id,
+        name: folder.name,
+        description: folder.description,
+        path: path.posix.join(data.path, folder.name),
+        createdAt: folder.createdAt,
+        updatedAt: folder.updatedAt,
+      })),
+    };
+  },
+});
+
+const folderTreeTool = defineTool({
+  name: AvailableTools.FolderTree,
+  description:
+    "Get the full folder hierarchy of an Infisical environment, with the number of secrets in each folder. Use this to find valid secret paths",
+  input: z.object({
+    projectId: z.string().describe("The ID of the project (required)"),
+    environmentSlug: z
+      .string()
+      .describe("The slug of the environment (required)"),
+    path: z
+      .string()
+      .default("/")
+      .describe("The path to start the tree at (Defaults to /)"),
+    maxDepth: z
+      .number()
+      .int()
+      .min(0)
+      .default(10)
+      .describe("The maximum depth of sub-folders to include (Defaults to 10)"),
+  }),
+  output: z.object({ tree: folderTreeNodeOutputSchema }),
+  handler: async (data) => {
+    const tree = await getFolderTree({
+      projectId: data.projectId,
+      environmentSlug: data.environmentSlug,
+      path: data.path,
+      maxDepth: data.maxDepth,
+    });
+
+    return { tree };
+  },
+});
+
+const updateFolderTool = defineTool({
+  name: AvailableTools.UpdateFolder,
+  description:
+    "Rename a folder or update its description in Infisical. Renaming a folder changes the secret path of everything inside it",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project the folder is in (required)"),
+    environmentSlug: z
+      .string()
+      .describe("The slug of the environment the folder is in (required)"),
+    path: z
+      .string()
+      .default("/")
+      .describe("The path the folder is located at (Defaults to /)"),
+    name: z.string().describe("The current name of the folder (required)"),
+    newName: z.string().optional().describe("The new name of the folder"),
+    description: z
+      .string()
+      .optional()
+      .describe("The new description of the folder"),
+  }),
+  output: z.object({ folder: folderOutputSchema }),
+  handler: async (data) => {
+    if (data.newName === undefined && data.description === undefined) {
+      throw new Error("Either newName or description must be provided");
+    }
+
+    const folder = await findFolder(data);
+
+    const { folder: updatedFolder } = await callInfisicalApi<{
+      folder: Folder;
+    }>({
+      method: "PATCH",
+      url: `/v1/folders/${folder.id}`,
+      data: {
+        workspaceId: data.projectId,
+        environment: data.environmentSlug,
+        path: data.path,
+        name: data.newName ?? folder.name,
+        description: data.description ?? folder.description,
+      },
+    });
+
+    return { folder: updatedFolder };
+  },
+});
+
+const deleteFolderTool = defineTool({
+  name: AvailableTools.DeleteFolder,
+  description:
+    "Delete a folder in Infisical. Deleting a folder also deletes all of its secrets and sub-folders",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project the folder is in (required)"),
+    environmentSlug: z
+      .string()
+      .describe("The slug of the environment the folder is in (required)"),
+    path: z
+      .string()
+      .default("/")
+      .describe("The path the folder is located at (Defaults to /)"),
+    name: z.string().describe("The name of the folder to delete (required)"),
+    force: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Whether to delete the folder even if it contains secrets or sub-folders. Only set this after the user explicitly confirmed deleting the contents (Defaults to false)",
+      ),
+  }),
+  output: z.object({ folder: folderOutputSchema }),
+  handler: async (data) => {
+    const folder = await findFolder(data);
+
+    if (!data.force) {
+      const tree = await getFolderTree({
+        projectId: data.projectId,
+        environmentSlug: data.environmentSlug,
+        path: path.posix.join(data.path, folder.name),
+        maxDepth: 1,
+      });
+
+      if (tree.secretCount || tree.folders.length) {
+        throw new Error(
+          `Folder ${tree.path} is not empty: it contains ${tree.secretCount} secrets and ${tree.folders.length} sub-folders (${tree.folders.map((f) => f.name).join(", ") || "none"}). Deleting it deletes all of its contents. Confirm with the user and call this tool again with force set to true`,
+        );
+      }
+    }
+
+    const { folder: deletedFolder } = await callInfisicalApi<{
+      folder: Folder;
+    }>({
+      method: "DELETE",
+      url: `/v1/folders/${folder.id}`,
+      data: {
+        workspaceId: data.projectId,
+        environment: data.environmentSlug,
+        path: data.path,
+      },
+    });
+
+    return { folder: deletedFolder };
+  },
+});
+
+const getEnvironmentTool = defineTool({
+  name: AvailableTools.GetEnvironment,
+  description: "Get an environment in Infisical",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project the environment is in (required)"),
+    environmentSlug: z
+      .string()
+      .describe("The slug of the environment to get (required)"),
+  }),
+  output: z.object({ environment: environmentOutputSchema }),
+  handler: async (data) => {
+    const { id } = await findEnvironment(data.projectId, data.environmentSlug);
+
+    const { environment } = await callInfisicalApi<{
+      environment: Environment;
+    }>({
+      method: "GET",
+      url: `/v1/workspace/${data.projectId}/environments/${id}`,
+    });
+
+    return { environment };
+  },
+});
+
+const listEnvironmentsTool = defineTool({
+  name: AvailableTools.ListEnvironments,
+  description: "List all environments of a project in Infisical",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to list the environments of (required)"),
+  }),
+  output: z.object({ environments: z.array(environmentOutputSchema) }),
+  handler: async (data) => {
+    const project = await getProject(data.projectId);
+
+    return { environments: project.environments };
+  },
+});
+
+const updateEnvironmentTool = defineTool({
+  name: AvailableTools.UpdateEnvironment,
+  description:
+    "Rename an environment, change its slug or move it to another position in Infisical. Changing the slug breaks anything that references the environment by its current slug",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project the environment is in (required)"),
+    environmentSlug: z
+      .string()
+      .describe("The current slug of the environment (required)"),
+    name: z.string().optional().describe("The new name of the environment"),
+    newSlug: z.string().optional().describe("The new slug of the environment"),
+    position: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe("The new position of the environment, starting at 1"),
+  }),
+  output: z.object({ environment: environmentOutputSchema }),
+  handler: async (data) => {
+    if (
+      data.name === undefined &&
+      data.newSlug === undefined &&
+      data.position === undefined
+    ) {
+      throw new Error("Either name, newSlug or position must be provided");
+    }
+
+    const { id } = await findEnvironment(data.projectId, data.environmentSlug);
+
+    const { environment } = await callInfisicalApi<{
+      environment: Environment;
+    }>({
+      method: "PATCH",
+      url: `/v1/workspace/${data.projectId}/environments/${id}`,
+      data: {
+        name: data.name,
+        slug: data.newSlug,
+        position: data.position,
+      },
+    });
+
+    return { environment };
+  },
+});
+
+const deleteEnvironmentTool = defineTool({
+  name: AvailableTools.DeleteEnvironment,
+  description:
+    "Delete an environment in Infisical, including all of its folders and secrets. Without `confirm`, nothing is deleted and the folders and secret counts that would be destroyed are returned instead",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project the environment is in (required)"),
+    environmentSlug: z
+      .string()
+      .describe("The slug of the environment to delete (required)"),
+    confirm: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Whether to actually delete the environment. Only set this after showing the user what will be destroyed and getting their explicit confirmation (Defaults to false)",
+      ),
+  }),
+  output: z.object({
+    deleted: z.boolean(),
+    environment: environmentOutputSchema
+      .optional()
+      .describe("The deleted environment, when confirmed"),
+    folderTree: folderTreeNodeOutputSchema
+      .optional()
+      .describe(
+        "The folders and secret counts that would be destroyed, when not confirmed",
+      ),
+    message: z.string().optional(),
+  }),
+  handler: async (data) => {
+    const { id } = await findEnvironment(data.projectId, data.environmentSlug);
+
+    if (!data.confirm) {
+      const tree = await getFolderTree({
+        projectId: data.projectId,
+        environmentSlug: data.environmentSlug,
+        path: "/",
+        maxDepth: 10,
+      });
+
+      return {
+        deleted: false,
+        folderTree: tree,
+        message: `Nothing was deleted. Deleting the "${data.environmentSlug}" environment will permanently destroy the folders and secrets in folderTree. Show this to the user, and only call this tool again with confirm set to true if they explicitly confirm.`,
+      };
+    }
+
+    const { environment } = await callInfisicalApi<{
+      environment: Environment;
+    }>({
+      method: "DELETE",
+      url: `/v1/workspace/${data.projectId}/environments/${id}`,
+    });
+
+    return { deleted: true, environment };
+  },
+});
+
+const getProjectTool = defineTool({
+  name: AvailableTools.GetProject,
+  description:
+    "Get a project in Infisical, including its type, environments, KMS key and delete protection",
+  input: z.object({
+    projectId: z.string().describe("The ID of the project to get (required)"),
+  }),
+  output: z.object({ project: projectOutputSchema }),
+  handler: async (data) => ({ project: await getProject(data.projectId) }),
+});
+
+const updateProjectTool = defineTool({
+  name: AvailableTools.UpdateProject,
+  description: "Update the name, description or slug of a project in Infisical",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to update (required)"),
+    name: z.string().optional().describe("The new name of the project"),
+    description: z
+      .string()
+      .optional()
+      .describe("The new description of the project"),
+    slug: z.string().optional().describe("The new slug of the project"),
+  }),
+  output: z.object({ project: projectOutputSchema }),
+  handler: async (data) => {
+    if (
+      data.name === undefined &&
+      data.description === undefined &&
+      data.slug === undefined
+    ) {
+      throw new Error("Either name, description or slug must be provided");
+    }
+
+    const { workspace } = await callInfisicalApi<{ workspace: Workspace }>({
+      method: "PATCH",
+      url: `/v1/workspace/${data.projectId}`,
+      data: {
+        name: data.name,
+        description: data.description,
+        slug: data.slug,
+      },
+    });
+
+    return { project: formatProject(workspace) };
+  },
+});
+
+const deleteProjectTool = defineTool({
+  name: AvailableTools.DeleteProject,
+  description:
+    "Delete a project in Infisical, including all of its environments and secrets. Projects with delete protection enabled can't be deleted. Ask the user to type the slug of the project to confirm",
+  input: z.object({
+    projectId: z
+      .string()
+      .describe("The ID of the project to delete (required)"),
+    confirmProjectSlug: z
+      .string()
+      .describe(
+        "The slug of the project to delete, as typed by the user to confirm the deletion (required)",
+      ),
+  }),
+  output: z.object({ projectId: z.string(), slug: z.string() }),
+  handler: async (data) => {
+    const project = await getProject(data.projectId);
+
+    if (project.hasDeleteProtection) {
+      throw new Error(
+        `Project "${project.slug}" has delete protection enabled and can't be deleted. Delete protection can only be disabled in the Infisical project settings`,
+      );
+    }
+
+    if (data.confirmProjectSlug !== project.slug) {
+      throw new Error(
+        `The confirmation slug "${data.confirmProjectSlug}" doesn't match the slug of the project. Ask the user to type the project slug exactly to confirm the deletion`,
+      );
+    }
+
+    await callInfisicalApi({
+      method: "DELETE",
+      url: `/v1/workspace/${data.projectId}`,
+    });
+
+    return { projectId: project.id, slug: project.slug };
+  },
+});
+
+const secretImportLocationShape = {
+  projectId: z.string().describe("The ID of the project (required)"),
+  environmentSlug: z
+    .string()
+    .describe(
+      "The slug of the environment that imports the secrets (required)",
+    ),
+  path: z
+    .string()
+    .default("/")
+    .describe(
+      "The path of the folder that imports the secrets (Defaults to /)",
+    ),
+};
+
+const secretImportSourceShape = {
+  importEnvironmentSlug: z
+    .string()
+    .describe(
+      "The slug of the environment the secrets are imported from (required)",
+    ),
+  importPath: z
+    .string()
+    .describe(
+      "The path of the folder the secrets are imported from (required)",
+    ),
+};
+
+const listSecretImportsTool = defineTool({
+  name: AvailableTools.ListSecretImports,
+  description:
+    "List the secret imports of a folder in Infisical, in the order they are applied. Later imports take precedence over earlier ones, and secrets defined in the folder itself take precedence over all imports",
+  input: z.object(secretImportLocationShape),
+  output: z.object({ secretImports: z.array(secretImportOutputSchema) }),
+  handler: async (data) => ({
+    secretImports: await listSecretImports(data),
+  }),
+});
+
+const createSecretImportTool = defineTool({
+  name: AvailableTools.CreateSecretImport,
+  description:
+    "Import the secrets of another environment or folder into a folder in Infisical. The new import is added last, so it takes precedence over existing imports",
+  input: z.object({
+    ...secretImportLocationShape,
+    ...secretImportSourceShape,
+    isReplication: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Whether to replicate the imported secrets into the folder instead of referencing them (Defaults to false)",
+      ),
+  }),
+  output: z.object({ secretImport: secretImportOutputSchema }),
+  handler: async (data) => {
+    const { secretImport } = await callInfisicalApi<{
+      secretImport: SecretImport;
+    }>({
+      method: "POST",
+      url: "/v1/secret-imports",
+      data: {
+        workspaceId: data.projectId,
+        environment: data.environmentSlug,
+        path: data.path,
+        import: {
+          environment: data.importEnvironmentSlug,
+          path: data.importPath,
+        },
+        isReplication: data.isReplication,
+      },
+    });
+
+    return { secretImport };
+  },
+});
+
+const updateSecretImportTool = defineTool({
+  name: AvailableTools.UpdateSecretImport,
+  description:
+    "Change the source of a secret import or move it to another position in Infisical",
+  input: z.object({
+    ...secretImportLocationShape,
+    ...secretImportSourceShape,
+    newImportEnvironmentSlug: z
+      .string()
+      .optional()
+      .describe(
+        "The slug of the environment to import the secrets from instead",
+      ),
+    newImportPath: z
+      .string()
+      .optional()
+      .describe("The path of the folder to import the secrets from instead"),
+    position: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe(
+        "The new 1-based position of the import. Imports at higher positions take precedence",
+      ),
+  }),
+  output: z.object({ secretImport: secretImportOutputSchema }),
+  handler: async (data) => {
+    if (
+      data.newImportEnvironmentSlug === undefined &&
+      data.newImportPath === undefined &&
+      data.position === undefined
+    ) {
+      throw new Error(
+        "Either newImportEnvironmentSlug, newImportPath or position must be provided",
+      );
+    }
+
+    const existingImport = await findSecretImport(data);
+
+    const { secretImport } = await callInfisicalApi<{
+      secretImport: SecretImport;
+    }>({
+      method: "PATCH",
+      url: `/v1/secret-imports/${existingImport.id}`,
+      data: {
+        workspaceId: data.projectId,
+        environment: data.environmentSlug,
+        path: data.path,
+        import: {
+          environment: data.newImportEnvironmentSlug,
+          path: data.newImportPath,
+          position: data.position,
+        },
+      },
+    });
+
+    return { secretImport };
+  },
+});
+
+const deleteSecretImportTool = defineTool({
+  name: AvailableTools.DeleteSecretImport,
+  description:
+    "Remove a secret import from a folder in Infisical. The imported secrets themselves are not deleted",
+  input: z.object({
+    ...secretImportLocationShape,
+    ...secretImportSourceShape,
+  }),
+  output: z.object({ secretImport: secretImportOutputSchema }),
+  handler: async (data) => {
+    const existingImport = await findSecretImport(data);
+
+    const { secretImport } = await callInfisicalApi<{
+      secretImport: SecretImport;
+    }>({
+      method: "DELETE",
+      url: `/v1/secret-imports/${existingImport.id}`,
+      data: {
+        workspaceId: data.projectId,
+        environment: data.environmentSlug,
+        path: data.path,
+      },
+    });
+
+    return { secretImport };
+  },
+});
+
+const explainSecretTool = defineTool({
+  name: AvailableTools.ExplainSecret,
+  description:
+    "Explain where the resolved value of a secret comes from: the folder itself or one of its secret imports. Lists every definition of the secret in precedence order and marks the one that wins",
+  input: z.object({
+    projectId: z.string().describe("The ID of the project (required)"),
+    environmentSlug: z
+      .string()
+      .describe("The slug of the environment (required)"),
+    secretPath: z
+      .string()
+      .default("/")
+      .describe(
+        "The path of the folder the secret is read from (Defaults to /)",
+      ),
+    secretName: z
+      .string()
+      .describe("The name of the secret to explain (required)"),
+    redaction: z
+      .nativeEnum(SecretRedactionMode)
+      .optional()
+      .describe(
+        "How to redact the secret values (Defaults to INFISICAL_SECRET_REDACTION)",
+      ),
+  }),
+  output: z.object({
+    secretName: z.string(),
+    resolvedFrom: z
+      .string()
+      .describe("The environment and path of the definition that wins"),
+    definitions: z.array(
+      z.object({
+        source: z.enum(["folder", "import"]),
+        environment: z.string(),
+        secretPath: z.string(),
+        position: z.number().optional(),
+        isReplication: z.boolean().optional(),
+        resolved: z.boolean(),
+        type: z.nativeEnum(SecretType),
+        ...redactedSecretValueShape,
+      }),
+    ),
+  }),
+  handler: async (data) => {
+    const [{ secrets, imports }, secretImports] = await Promise.all([
+      getInfisicalSdk().secrets().listSecrets({
+        environment: data.environmentSlug,
+        projectId: data.projectId,
+        secretPath: data.secretPath,
+        expandSecretReferences: true,
+        includeImports: true,
+      }),
+      listSecretImports({
+        projectId: data.projectId,
+        environmentSlug: data.environmentSlug,
+        path: data.secretPath,
+      }),
+    ]);
+
+    const redaction = getRedactionMode(data.redaction);
+
+    // personal overrides win over shared secrets, the folder's own secrets win over imports,
+    // and later imports win over earlier ones
+    const definitions = [
+      ...secrets
+        .filter((secret) => secret.secretKey === data.secretName)
+        .sort(
+          (a, b) =>
+            Number(b.type === SecretType.Personal) -
+            Number(a.type === SecretType.Personal),
+        )
+        .map((secret) => ({
+          source: "folder" as const,
+          environment: data.environmentSlug,
+          secretPath: data.secretPath,
+          secret,
+        })),
+      ...secretImports
+        .slice()
+        .reverse()
+        .flatMap((secretImport) => {
+          const importedSecrets = imports?.find(
+            (i) =>
+              i.environment === secretImport.importEnv.slug &&
+              i.secretPath === secretImport.importPath,
+          )?.secrets;
+
+          return (importedSecrets ?? [])
+            .filter((secret) => secret.secretKey === data.secretName)
+            .map((secret) => ({
+              source: "import" as const,
+              environment: secretImport.importEnv.slug,
+              secretPath: secretImport.importPath,
+              position: secretImport.position,
+              isReplication: secretImport.isReplication,
+              secret,
+            }));
+        }),
+    ].map(({ secret, ...definition }, index) => ({
+      ...definition,
+      resolved: index === 0,
+      ...redactSecret(
+        { type: secret.type, secretValue: secret.secretValue },
+        redaction,
+      ),
+    }));
+
+    if (!definitions.length) {
+      throw new Error(
+        `Secret ${data.secretName} is not defined at ${data.environmentSlug}:${data.secretPath} or in any of its ${secretImports.length} imports`,
+      );
+    }
+
+    return {
+      secretName: data.secretName,
+      resolvedFrom: `${definitions[0].environment}:${definitions[0].secretPath}`,
+      definitions,
+    };
+  },
+});
+
+const analyzeSecretReferencesTool = defineTool({
+  name: AvailableTools.AnalyzeSecretReferences,
+  description:
+    "Analyze the secret references (${KEY}, ${env.KEY} and ${env.path.KEY}) of an Infisical environment without revealing secret values. Reports references to secrets that don't exist, reference cycles and, when secretName is set, every secret that depends on that secret. Use this before deleting or renaming a secret",
+  input: z.object({
+    projectId: z.string().describe("The ID of the project (required)"),
+    environmentSlug: z
+      .string()
+      .describe("The slug of the environment to analyze (required)"),
+    secretPath: z
+      .string()
+      .default("/")
+      .describe(
+        "The path to analyze, including all of its sub-folders (Defaults to /)",
+      ),
+    allEnvironments: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Whether to analyze every environment of the project. Set this to find dependents in other environments (Defaults to false)",
+      ),
+    secretName: z
+      .string()
+      .optional()
+      .describe(
+        "The name of a secret at secretPath in environmentSlug to list the dependents of",
+      ),
+  }),
+  output: z.object({
+    analyzed: z.object({
+      secrets: z.number(),
+      references: z.number(),
+    }),
+    danglingReferences: z.array(
+      z.object({
+        secret: z.string(),
+        reference: z.string(),
+        reason: z.string(),
+      }),
+    ),
+    cycles: z.array(z.array(z.string())),
+    dependents: z
+      .object({
+        secret: z.string(),
+        exists: z.boolean(),
+        direct: z.array(z.string()),
+        transitive: z.array(z.string()),
+      })
+      .optional()
+      .describe("The secrets that depend on secretName, when set"),
+  }),
+  handler: async (data) => {
+    const scopes = data.allEnvironments
+      ? (await getProject(data.projectId)).environments.map((environment) => ({
+          environmentSlug: environment.slug,
+          secretPath: "/",
+        }))
+      : [
+          {
+            environmentSlug: data.environmentSlug,
+            secretPath: data.secretPath,
+          },
+        ];
+
+    const { secretIds, references, folderErrors } =
+      await buildSecretReferenceGraph({ projectId: data.projectId, scopes });
+
+    const danglingReferences = [...references].flatMap(
+      ([secretId, secretReferences]) =>
+        secretReferences
+          .filter(
+            (reference) => !secretIds.has(getSecretReferenceId(reference)),
+          )
+          .map((reference) => ({
+            secret: secretId,
+            reference: reference.reference,
+            reason:
+              folderErrors.get(
+                `${reference.environmentSlug}:${reference.secretPath}`,
+              ) ?? `Secret ${getSecretReferenceId(reference)} does not exist`,
+          })),
+    );
+
+    const analysis = {
+      analyzed: {
+        secrets: secretIds.size,
+        references: [...references.values()].reduce(
+          (count, secretReferences) => count + secretReferences.length,
+          0,
+        ),
+      },
+      danglingReferences,
+      cycles: findSecretReferenceCycles(references),
+    };
+
+    if (!data.secretName) {
+      return analysis;
+    }
+
+    const secretId = getSecretReferenceId({
+      environmentSlug: data.environmentSlug,
+      secretPath: data.secretPath,
+      secretKey: data.secretName,
+    });
+
+    const dependentsById = new Map<string, string[]>();
+    for (const [dependentId, secretReferences] of references) {
+      for (const reference of secretReferences) {
+        const referencedId = getSecretReferenceId(reference);
+        dependentsById.set(referencedId, [
+          ...(dependentsById.get(referencedId) ?? []),
+          dependentId,
+        ]);
+      }
+    }
+
+    const transitive = new Set<string>();
+    const queue = [...(dependentsById.get(secretId) ?? [])];
+    while (queue.length) {
+      const dependentId = queue.shift()!;
+      if (dependentId !== secretId && !transitive.has(dependentId)) {
+        transitive.add(dependentId);
+        queue.push(...(dependentsById.get(dependentId) ?? []));
+      }
+    }
+
+    return {
+      ...analysis,
+      dependents: {
+        secret: secretId,
+        exists: secretIds.has(secretId),
+        direct: [...new Set(dependentsById.get(secretId) ?? [])],
+        transitive: [...transitive],
+      },
+    };
+  },
+});
+
+const listProfilesTool = defineTool({
+  name: AvailableTools.ListProfiles,
+  description:
+    "List the configured Infisical profiles with their host and authentication method. Pass the name of a profile as the profile argument of any other tool to use it",
+  input: z.object({}),
+  output: z.object({
+    profiles: z.array(
+      z.object({
+        name: z.string(),
+        hostUrl: z.string(),
+        authMethod: z.string(),
+        isDefault: z.boolean(),
+        isAuthenticated: z.boolean(),
+      }),
+    ),
+  }),
+  handler: async () => ({
+    profiles: [...profiles.values()].map((profile) => ({
+      name: profile.name,
+      hostUrl: profile.config.INFISICAL_HOST_URL,
+      authMethod: profile.config.INFISICAL_AUTH_METHOD,
+      isDefault: profile.name === defaultProfileName,
+      isAuthenticated: profile.isAuthenticated,
+    })),
+  }),
+});
+
+const setContextTool = defineTool({
+  name: AvailableTools.SetContext,
+  description:
+    "Set the project, environment and secret path that other tools use when these arguments are omitted. The context is kept for the rest of the session",
+  input: z.object({
+    projectId: z
+      .string()
+      .optional()
+      .describe("The ID, slug or name of the project"),
+    environmentSlug: z
+      .string()
+      .optional()
+      .describe("The slug or name of the environment"),
+    secretPath: z
+      .string()
+      .optional()
+      .describe("The secret path, also used as the folder path"),
+    clear: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Whether to reset the context to the configured defaults before applying the other arguments (Defaults to false)",
+      ),
+  }),
+  output: sessionContextOutputSchema,
+  handler: async (data) => {
+    const key = getSessionContextKey();
+    if (data.clear) {
+      sessionContexts.delete(key);
+    }
+
+    const currentContext = getSessionContext();
+    const projectReference = data.projectId ?? currentContext.projectId;
+    const environmentReference =
+      data.environmentSlug ??
+      (data.projectId ? undefined : currentContext.environmentSlug);
+
+    if (!projectReference && environmentReference) {
+      throw new Error(
+        "An environment can only be set together with a project, pass projectId as well",
+      );
+    }
+
+    const context: SessionContext = {
+      ...sessionContexts.get(key),
+      ...(data.secretPath && { secretPath: data.secretPath }),
+    };
+
+    if (projectReference) {
+      const { projectId, environmentSlug } = await resolveProjectReference(
+        projectReference,
+        environmentReference,
+      );
+
+      // verifies the project is accessible and the environment exists
+      if (environmentSlug) {
+        await findEnvironment(projectId, environmentSlug);
+      } else {
+        await getProject(projectId);
+      }
+
+      context.projectId = projectId;
+      context.environmentSlug = environmentSlug;
+    }
+
+    sessionContexts.set(
+      key,
+      Object.fromEntries(
+        Object.entries(context).filter(([, value]) => value !== undefined),
+      ),
+    );
+
+    return { profile: getProfile().name, ...getSessionContext() };
+  },
+});
+
+const getContextTool = defineTool({
+  name: AvailableTools.GetContext,
+  description:
+    "Get the project, environment and secret path that other tools use when these arguments are omitted",
+  input: z.object({}),
+  output: sessionContextOutputSchema,
+  handler: async () => ({
+    profile: getProfile().name,
+    ...getSessionContext(),
+  }),
+});
+
+const tools: Tool[] = [
+  createSecretTool,
+  deleteSecretTool,
+  updateSecretTool,
+  listSecretsTool,
+  getSecretTool,
+  createProjectTool,
+  createEnvironmentTool,
+  createFolderTool,
+  inviteMembersToProjectTool,
+  listProjectsTool,
+  bulkCreateSecretsTool,
+  bulkUpdateSecretsTool,
+  bulkDeleteSecretsTool,
+  exportSecretsTool,
+  importSecretsTool,
+  diffSecretsTool,
+  listSecretVersionsTool,
+  rollbackSecretTool,
+  listFoldersTool,
+  folderTreeTool,
+  updateFolderTool,
+  deleteFolderTool,
+  getEnvironmentTool,
+  listEnvironmentsTool,
+  updateEnvironmentTool,
+  deleteEnvironmentTool,
+  getProjectTool,
+  updateProjectTool,
+  deleteProjectTool,
+  listSecretImportsTool,
+  createSecretImportTool,
+  updateSecretImportTool,
+  deleteSecretImportTool,
+  explainSecretTool,
+  analyzeSecretReferencesTool,
+  listProfilesTool,
+  setContextTool,
+  getContextTool,
+];
+
+// the text content mirrors the structured content for clients that don't support output schemas
+const handleToolCall = async (
+  name: string,
+  args: unknown,
+): Promise<CallToolResult> => {
+  const tool = tools.find((t) => t.name === name);
+  if (!tool) {
+    throw new Error(`Unrecognized tool name: ${name}`);
+  }
+
+  const output = await tool.call(args);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(output, null, 3),
+      },
+    ],
+    structuredContent: output,
+  };
+};
+
+const RESOURCE_URI_PREFIX = "infisical://projects";
+
+const resourceTemplates = [
+  {
+    uriTemplate: `${RESOURCE_URI_PREFIX}/{projectId}`,
+    name: "Project",
+    description:
+      "An Infisical project with its type and environments. Secret values are never included.",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: `${RESOURCE_URI_PREFIX}/{projectId}/environments/{environmentSlug}/folders{+secretPath}`,
+    name: "Folder",
+    description:
+      "A folder in an Infisical environment with its sub-folders and the keys of the secrets it contains. Secret values are never included.",
+    mimeType: "application/json",
+  },
+];
+
+const getProjectResourceUri = (projectId: string) =>
+  `${RESOURCE_URI_PREFIX}/${encodeURIComponent(projectId)}`;
+
+const getFolderResourceUri = (
+  projectId: string,
+  environmentSlug: string,
+  secretPath: string,
+) =>
+  `${getProjectResourceUri(projectId)}/environments/${encodeURIComponent(environmentSlug)}/folders${secretPath}`;
+
+const parseResourceUri = (uri: string) => {
+  const match = uri.match(
+    /^infisical:\/\/projects\/([^/]+)(?:\/environments\/([^/]+)\/folders(\/.*)?)?$/,
+  );
+
+  if (!match) {
+    throw new Error(
+      `Invalid resource URI: ${uri}. Expected ${resourceTemplates.map((template) => template.uriTemplate).join(" or ")}`,
+    );
+  }
+
+  const [, projectId, environmentSlug, secretPath] = match;
+
+  return {
+    projectId: decodeURIComponent(projectId),
+    environmentSlug:
+      environmentSlug !== undefined
+        ? decodeURIComponent(environmentSlug)
+        : undefined,
+    secretPath: decodeURIComponent(secretPath || "/"),
+  };
+};
+
+const handleListResources = async () => {
+  const projects = await listProjects("all");
+
+  return projects.flatMap((project) => [
+    {
+      uri: getProjectResourceUri(project.id),
+      name: project.name,
+      description: `Infisical ${project.type} project "${project.slug}"`,
+      mimeType: "application/json",
+    },
+    ...project.environments.map((environment) => ({
+      uri: getFolderResourceUri(project.id, environment.slug, "/"),
+      name: `${project.name} / ${environment.name}`,
+      description: `Root folder of the "${environment.slug}" environment in project "${project.slug}"`,
+      mimeType: "application/json",
+    })),
+  ]);
+};
+
+const handleReadResource = async (uri: string) => {
+  const { projectId, environmentSlug, secretPath } = parseResourceUri(uri);
+
+  const projects = await listProjects("all");
+  const project = projects.find((p) => p.id === projectId);
+
+  if (!project) {
+    throw new Error(`Project not found: ${projectId}`);
+  }
+
+  if (environmentSlug === undefined) {
+    return project;
+  }
+
+  if (
+    !project.environments.some(
+      (environment) => environment.slug === environmentSlug,
+    )
+  ) {
+    throw new Error(
+      `Environment "${environmentSlug}" not found in project "${project.slug}". Available environments: ${project.environments.map((environment) => environment.slug).join(", ")}`,
+    );
+  }
+
+  const [folders, { secrets }] = await Promise.all([
+    getInfisicalSdk().folders().listFolders({
+      environment: environmentSlug,
+      projectId,
+      path: secretPath,
+    }),
+    getInfisicalSdk().secrets().listSecrets({
+      environment: environmentSlug,
+      projectId,
+      secretPath,
+      expandSecretReferences: false,
+      includeImports: false,
+      viewSecretValue: false,
+    }),
+  ]);
+
+  return {
+    projectId,
+    environmentSlug,
+    secretPath,
+    folders: folders.map((folder) => ({
+      id: folder.id,
+      name: folder.name,
+      description: folder.description,
+      uri: getFolderResourceUri(
+        projectId,
+        environmentSlug,
+        path.posix.join(secretPath, folder.name),
+      ),
+    })),
+    secrets: secrets.map((secret) => ({
+      secretKey: secret.secretKey,
+      type: secret.type,
+      version: secret.version,
+      tags: secret.tags,
+      updatedAt: secret.updatedAt,
+    })),
+  };
+};
+
+enum AvailablePrompts {
+  OnboardService = "onboard-service",
+  PromoteConfig = "promote-config",
+  AuditEnvironment = "audit-environment",
+}
+
+const onboardServicePromptSchema = {
+  zod: z.object({
+    projectId: z.string(),
+    serviceName: z.string(),
+    environmentSlugs: z.string().default("dev,staging,prod"),
+    secretNames: z.string().optional(),
+  }),
+  requiredTools: [
+    AvailableTools.ListProjects,
+    AvailableTools.CreateEnvironment,
+    AvailableTools.CreateFolder,
+    AvailableTools.CreateSecret,
+  ],
+  capability: {
+    name: AvailablePrompts.OnboardService,
+    description:
+      "Onboard a new service into an Infisical project by creating its folder and secrets in every environment",
+    arguments: [
+      {
+        name: "projectId",
+        description: "The ID of the project to onboard the service into",
+        required: true,
+      },
+      {
+        name: "serviceName",
+        description:
+          "The name of the service. A folder with this name is created in each environment",
+        required: true,
+      },
+      {
+        name: "environmentSlugs",
+        description:
+          "Comma-separated slugs of the environments to onboard the service into (Defaults to dev,staging,prod)",
+      },
+      {
+        name: "secretNames",
+        description:
+          "Comma-separated names of the secrets the service needs. If not provided, ask the user for them",
+      },
+    ],
+  },
+};
+
+const promoteConfigPromptSchema = {
+  zod: z.object({
+    projectId: z.string(),
+    sourceEnvironmentSlug: z.string().default("staging"),
+    targetEnvironmentSlug: z.string().default("prod"),
+    secretPath: z.string().default("/"),
+  }),
+  requiredTools: [
+    AvailableTools.ListSecrets,
+    AvailableTools.GetSecret,
+    AvailableTools.CreateSecret,
+    AvailableTools.UpdateSecret,
+  ],
+  capability: {
+    name: AvailablePrompts.PromoteConfig,
+    description:
+      "Promote configuration from one environment to another, e.g. from staging to prod",
+    arguments: [
+      {
+        name: "projectId",
+        description: "The ID of the project to promote the configuration in",
+        required: true,
+      },
+      {
+        name: "sourceEnvironmentSlug",
+        description:
+          "The slug of the environment to promote from (Defaults to staging)",
+      },
+      {
+        name: "targetEnvironmentSlug",
+        description:
+          "The slug of the environment to promote to (Defaults to prod)",
+      },
+      {
+        name: "secretPath",
+        description: "The path of the secrets to promote (Defaults to /)",
+      },
+    ],
+  },
+};
+
+const auditEnvironmentPromptSchema = {
+  zod: z.object({
+    projectId: z.string(),
+    environmentSlug: z.string(),
+    secretPath: z.string().default("/"),
+  }),
+  requiredTools: [AvailableTools.ListSecrets],
+  capability: {
+    name: AvailablePrompts.AuditEnvironment,
+    description:
+      "Audit an environment for empty secrets and secrets that share the same value",
+    arguments: [
+      {
+        name: "projectId",
+        description: "The ID of the project to audit",
+        required: true,
+      },
+      {
+        name: "environmentSlug",
+        description: "The slug of the environment to audit",
+        required: true,
+      },
+      {
+        name: "secretPath",
+        description: "The path of the secrets to audit (Defaults to /)",
+      },
+    ],
+  },
+};
+
+const splitPromptList = (value?: string) =>
+  (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const promptSchemas = [
+  onboardServicePromptSchema,
+  promoteConfigPromptSchema,
+  auditEnvironmentPromptSchema,
+];
+
+// prompts are only advertised when all the tools they rely on are enabled
+const isPromptEnabled = (prompt: { requiredTools: AvailableTools[] }) =>
+  prompt.requiredTools.every((toolName) => isToolEnabled(toolName));
+
+const handleGetPrompt = (name: string, args: unknown) => {
+  if (name === AvailablePrompts.OnboardService) {
+    const data = onboardServicePromptSchema.zod.parse(args);
+
+    const environmentSlugs = splitPromptList(data.environmentSlugs);
+    const secretNames = splitPromptList(data.secretNames);
+
+    return [
+      `Onboard the service "${data.serviceName}" into the Infisical project with ID "${data.projectId}", in the following environments: ${environmentSlugs.join(", ")}.`,
+      "",
+      "Follow these steps in order:",
+      `1. Call \`${AvailableTools.ListProjects}\` and find the project with ID "${data.projectId}". Note which of the environments above already exist in the project.`,
+      `2. For every environment above that doesn't exist yet, confirm with the user and then call \`${AvailableTools.CreateEnvironment}\` with projectId "${data.projectId}", the environment slug and a human readable name.`,
+      `3. For every environment, call \`${AvailableTools.CreateFolder}\` with projectId "${data.projectId}", the environment slug as \`environment\`, name "${data.serviceName}" and path "/".`,
+      secretNames.length
+        ? `4. For every environment, call \`${AvailableTools.CreateSecret}\` with secretPath "/${data.serviceName}" for each of these secrets: ${secretNames.join(", ")}. Ask the user for the value of each secret per environment, and leave the value empty if they don't know it yet.`
+        : `4. Ask the user which secrets the service needs, then for every environment call \`${AvailableTools.CreateSecret}\` with secretPath "/${data.serviceName}" for each of them. Ask the user for the value of each secret per environment, and leave the value empty if they don't know it yet.`,
+      "5. Summarize which environments, folders and secrets were created, and which secrets still have empty values.",
+    ].join("\n");
+  }
+
+  if (name === AvailablePrompts.PromoteConfig) {
+    const data = promoteConfigPromptSchema.zod.parse(args);
+
+    return [
+      `Promote the configuration at path "${data.secretPath}" from the "${data.sourceEnvironmentSlug}" environment to the "${data.targetEnvironmentSlug}" environment in the Infisical project with ID "${data.projectId}".`,
+      "",
+      "Follow these steps in order:",
+      `1. Call \`${AvailableTools.ListSecrets}\` with projectId "${data.projectId}", environmentSlug "${data.sourceEnvironmentSlug}", secretPath "${data.secretPath}" and redaction "fingerprint".`,
+      `2. Call \`${AvailableTools.ListSecrets}\` with projectId "${data.projectId}", environmentSlug "${data.targetEnvironmentSlug}", secretPath "${data.secretPath}" and redaction "fingerprint".`,
+      `3. Compare both lists by secret key and SHA-256 fingerprint. Group the secrets into: missing in "${data.targetEnvironmentSlug}", different between the environments, and identical.`,
+      "4. Show the user this comparison without revealing any secret values, and ask them to confirm exactly which secrets to promote. Values that are environment specific (like hostnames, database URLs or credentials) usually shouldn't be promoted.",
+      `5. For each confirmed secret, read its value with \`${AvailableTools.GetSecret}\` from "${data.sourceEnvironmentSlug}", then call \`${AvailableTools.CreateSecret}\` for missing secrets or \`${AvailableTools.UpdateSecret}\` for different secrets in "${data.targetEnvironmentSlug}", using redaction "masked" so values aren't repeated back.`,
+      "6. Summarize which secrets were created, updated and skipped.",
+    ].join("\n");
+  }
+
+  if (name === AvailablePrompts.AuditEnvironment) {
+    const data = auditEnvironmentPromptSchema.zod.parse(args);
+
+    return [
+      `Audit the "${data.environmentSlug}" environment at path "${data.secretPath}" in the Infisical project with ID "${data.projectId}".`,
+      "",
+      "Follow these steps in order:",
+      `1. Call \`${AvailableTools.ListSecrets}\` with projectId "${data.projectId}", environmentSlug "${data.environmentSlug}", secretPath "${data.secretPath}", expandSecretReferences false and redaction "fingerprint".`,
+      "2. Report every secret with an empty value (a secretValueLength of 0).",
+      "3. Report every group of secrets that share the same value (the same secretValueSha256), as these are often copy-paste mistakes or credentials that should be rotated independently.",
+      "4. Report any secret keys that only differ in casing or separators (e.g. DB_URL and DbUrl), as these are likely duplicates.",
+      "5. Don't change anything. Summarize the findings and suggest fixes for the user to confirm.",
+    ].join("\n");
+  }
+
+  throw new Error(`Unrecognized prompt name: ${name}`);
+};
+
+// argument names whose values are secret values or may contain them
+const AUDIT_REDACTED_ARGUMENTS = new Set(["secretValue", "content"]);
+
+type AuditResource = {
+  projectId: string;
+  environmentSlug?: string;
+  secretPath?: string;
+  secretName?: string;
+};
+
+const getAuditIdentity = (profile: Profile) => {
+  const { config } = profile;
+
+  if (config.INFISICAL_AUTH_METHOD === InfisicalAuthMethod.UniversalAuth) {
+    return {
+      profile: profile.name,
+      authMethod: config.INFISICAL_AUTH_METHOD,
+      clientId: config.INFISICAL_UNIVERSAL_AUTH_CLIENT_ID,
+    };
+  }
+
+  if (config.INFISICAL_AUTH_METHOD !== InfisicalAuthMethod.TokenAuth) {
+    return {
+      profile: profile.name,
+      authMethod: config.INFISICAL_AUTH_METHOD,
+      identityId: config.INFISICAL_MACHINE_IDENTITY_ID,
+    };
+  }
+
+  const claims = decodeAccessToken(config.INFISICAL_TOKEN!);
+  return {
+    profile: profile.name,
+    authMethod: config.INFISICAL_AUTH_METHOD,
+    authTokenType: claims?.authTokenType,
+    identityId: claims?.identityId,
+    userId: claims?.userId,
+  };
+};
+
+const redactAuditArguments = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(redactAuditArguments);
+  }
+
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      AUDIT_REDACTED_ARGUMENTS.has(key) && typeof entry === "string"
+        ? MASKED_SECRET_VALUE
+        : redactAuditArguments(entry),
+    ]),
+  );
+};
+
+// collects the projects, folders and secrets a tool call targets from its arguments,
+// nested objects such as bulk secrets inherit the location of their parent
+const getAuditResources = (args: unknown) => {
+  const resources = new Map<string, AuditResource>();
+
+  const visit = (value: unknown, parent: Partial<AuditResource>) => {
+    if (Array.isArray(value)) {
+      value.forEach((entry) => visit(entry, parent));
+      return;
+    }
+
+    if (!value || typeof value !== "object") {
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+    const getString = (key: string) =>
+      typeof record[key] === "string" ? (record[key] as string) : undefined;
+
+    const resource = {
+      projectId: getString("projectId") ?? parent.projectId,
+      environmentSlug: getString("environmentSlug") ?? parent.environmentSlug,
+      secretPath:
+        getString("secretPath") ?? getString("path") ?? parent.secretPath,
+      secretName: getString("secretName"),
+    };
+
+    if (
+      resource.projectId &&
+      ["projectId", "environmentSlug", "secretName"].some((key) =>
+        getString(key),
+      )
+    ) {
+      resources.set(JSON.stringify(resource), resource as AuditResource);
+    }
+
+    Object.values(record).forEach((entry) => visit(entry, resource));
+  };
+
+  visit(args, {});
+  return [...resources.values()];
+};
+
+const writeAuditLog = (entry: Record<string, unknown>) => {
+  if (!env.INFISICAL_AUDIT_LOG) {
+    return;
+  }
+
+  const line = `${JSON.stringify(entry)}\n`;
+
+  try {
+    if (env.INFISICAL_AUDIT_LOG === "stderr") {
+      process.stderr.write(line);
+    } else {
+      fs.appendFileSync(env.INFISICAL_AUDIT_LOG, line);
+    }
+  } catch (err) {
+    console.error("Failed to write to the audit log", err);
+  }
 };
 
-const inviteMembersToProjectSchema = {
-  zod: z.object({
-    projectId: z.string(),
-    emails: z.array(z.string()).optional(),
-    usernames: z.array(z.string()).optional(),
-    roleSlugs: z.array(z.string()).optional(),
-  }),
-  capability: {
-    name: AvailableTools.InviteMembersToProject,
-    description: "Invite members to a project in Infisical",
-    inputSchema: {
-      type: "object",
-      properties: {
-        projectId: {
-          type: "string",
-          description: "The ID of the project to invite members to (required)",
-        },
-        emails: {
-          type: "array",
-          description:
-            "The emails of the members to invite. Either usernames or emails must be provided.",
-        },
-        usernames: {
-          type: "array",
-          description:
-            "The usernames of the members to invite. Either usernames or emails must be provided.",
-        },
-        roleSlugs: {
-          type: "array",
-          description:
-            "The role slugs of the members to invite. If not provided, the default role 'member' will be used. Ask the user to confirm the role they want to use if not explicitly specified.",
-        },
-      },
-      required: ["projectId"],
-    },
-  },
+type PendingConfirmation = {
+  toolName: string;
+  argumentsHash: string;
+  sessionId?: string;
+  expiresAt: number;
 };
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      createSecretSchema.capability,
-      deleteSecretSchema.capability,
-      updateSecretSchema.capability,
-      listSecretsSchema.capability,
-      getSecretSchema.capability,
-      createProjectSchema.capability,
-      createEnvironmentSchema.capability,
-      createFolderSchema.capability,
-      inviteMembersToProjectSchema.capability,
-      listProjectsSchema.capability,
-    ],
-  };
-});
 
-server.setRequestHandler(CallToolRequestSchema, async (req) => {
-  try {
-    await handleAuthentication();
+const pendingConfirmations = new Map<string, PendingConfirmation>();
 
-    const { name, arguments: args } = req.params;
+const requiresConfirmation = (toolName: string) =>
+  env.INFISICAL_REQUIRE_CONFIRMATION && toolName in CONFIRMATION_REQUIRED_TOOLS;
 
-    if (name === AvailableTools.CreateSecret) {
-      const data = createSecretSchema.zod.parse(args);
+// hashes the arguments with sorted keys so the confirming call can list them in any order
+const hashToolArguments = (args: unknown) =>
+  crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify(args, (_, value) =>
+        value && typeof value === "object" && !Array.isArray(value)
+          ? Object.fromEntries(
+              Object.entries(value).sort(([a], [b]) => a.localeCompare(b)),
+            )
+          : value,
+      ),
+    )
+    .digest("hex");
 
-      const { secret } = await infisicalSdk
-        .secrets()
-        .createSecret(data.secretName, {
-          environment: data.environmentSlug,
-          projectId: data.projectId,
-          secretPath: data.secretPath,
-          secretValue: data.secretValue ?? "",
-        });
+const formatAuditResource = (resource: AuditResource) =>
+  resource.environmentSlug
+    ? `${resource.environmentSlug}:${path.posix.join(resource.secretPath ?? "/", resource.secretName ?? "")} in project ${resource.projectId}`
+    : `project ${resource.projectId}`;
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Secret created successfully: ${JSON.stringify(secret, null, 3)}`,
-          },
-        ],
-      };
-    }
+// returns null when the tool call may proceed, otherwise the result to return instead of running the tool
+const confirmToolCall = async ({
+  server,
+  name,
+  args,
+  sessionId,
+  requestId,
+}: {
+  server: Server;
+  name: string;
+  args: Record<string, unknown>;
+  sessionId?: string;
+  requestId: string | number;
+}): Promise<{
+  outcome: "confirmation-required" | "cancelled";
+  result: CallToolResult;
+} | null> => {
+  const { confirmationToken, ...toolArguments } = args;
+  const argumentsHash = hashToolArguments(toolArguments);
 
-    if (name === AvailableTools.DeleteSecret) {
-      const data = deleteSecretSchema.zod.parse(args);
+  if (typeof confirmationToken === "string") {
+    const pendingConfirmation = pendingConfirmations.get(confirmationToken);
+    pendingConfirmations.delete(confirmationToken);
 
-      const { secret } = await infisicalSdk
-        .secrets()
-        .deleteSecret(data.secretName, {
-          environment: data.environmentSlug,
-          projectId: data.projectId,
-          secretPath: data.secretPath,
-        });
+    if (!pendingConfirmation || pendingConfirmation.expiresAt < Date.now()) {
+      throw new Error(
+        "The confirmation token is invalid, expired or was already used. Call the tool again without a confirmationToken to get a new one",
+      );
+    }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Secret deleted successfully: ${secret.secretKey}`,
-          },
-        ],
-      };
+    if (
+      pendingConfirmation.toolName !== name ||
+      pendingConfirmation.argumentsHash !== argumentsHash ||
+      pendingConfirmation.sessionId !== sessionId
+    ) {
+      throw new Error(
+        "The confirmation token was issued for a different tool call. Call the tool again with exactly the same arguments, or without a confirmationToken to get a new one",
+      );
     }
 
-    if (name === AvailableTools.UpdateSecret) {
-      const data = updateSecretSchema.zod.parse(args);
+    return null;
+  }
+
+  const description = `${CONFIRMATION_REQUIRED_TOOLS[name as AvailableTools]} ${getAuditResources(
+    name === AvailableTools.DiffSecrets ? toolArguments.target : toolArguments,
+  )
+    .map(formatAuditResource)
+    .join(", ")}`;
+  const plan = {
+    tool: name,
+    description,
+    arguments: redactAuditArguments(toolArguments),
+  };
 
-      const { secret } = await infisicalSdk
-        .secrets()
-        .updateSecret(data.secretName, {
-          environment: data.environmentSlug,
-          projectId: data.projectId,
-          secretPath: data.secretPath,
-          secretValue: data.secretValue ?? "",
-        });
+  // clients that support elicitation ask the user directly instead of relying on the model
+  if (server.getClientCapabilities()?.elicitation) {
+    const elicitation = await server.elicitInput(
+      {
+        message: `${description}?\n\n${JSON.stringify(plan.arguments, null, 2)}`,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            confirm: {
+              type: "boolean",
+              title: "Confirm",
+              description: `Run ${name}`,
+            },
+          },
+          required: ["confirm"],
+        },
+      },
+      { relatedRequestId: requestId },
+    );
 
-      return {
+    if (elicitation.action === "accept" && elicitation.content?.confirm) {
+      return null;
+    }
+
+    return {
+      outcome: "cancelled",
+      result: {
         content: [
           {
             type: "text",
-            text: `Secret updated successfully. Updated secret: ${JSON.stringify(secret, null, 3)}`,
+            text: `The user did not confirm the tool call, nothing was changed: ${JSON.stringify(plan, null, 3)}`,
           },
         ],
-      };
+      },
+    };
+  }
+
+  for (const [token, pendingConfirmation] of pendingConfirmations) {
+    if (pendingConfirmation.expiresAt < Date.now()) {
+      pendingConfirmations.delete(token);
     }
+  }
 
-    if (name === AvailableTools.ListSecrets) {
-      const data = listSecretsSchema.zod.parse(args);
+  const token = crypto.randomBytes(16).toString("hex");
+  pendingConfirmations.set(token, {
+    toolName: name,
+    argumentsHash,
+    sessionId,
+    expiresAt: Date.now() + CONFIRMATION_TOKEN_TTL_MS,
+  });
 
-      const secrets = await infisicalSdk.secrets().listSecrets({
-        environment: data.environmentSlug,
-        projectId: data.projectId,
-        secretPath: data.secretPath,
-        expandSecretReferences: data.expandSecretReferences,
-        includeImports: data.includeImports,
-      });
+  return {
+    outcome: "confirmation-required",
+    result: {
+      content: [
+        {
+          type: "text",
+          text: `Confirmation required, nothing was changed yet: ${JSON.stringify(plan, null, 3)}\n\nDescribe this change to the user. Only once they confirm it, call ${name} again with exactly the same arguments and confirmationToken set to "${token}". The token expires in ${CONFIRMATION_TOKEN_TTL_MS / 60000} minutes and can only be used once.`,
+        },
+      ],
+    },
+  };
+};
 
-      const response = {
-        secrets: secrets.secrets.map((secret) => ({
-          secretKey: secret.secretKey,
-          secretValue: secret.secretValue,
-        })),
-        ...(secrets.imports && {
-          imports: secrets.imports?.map((imp) => {
-            const parsedImportSecrets = imp.secrets.map((secret) => ({
-              secretKey: secret.secretKey,
-              secretValue: secret.secretValue,
-            }));
+// the arguments that default to the session context, see set-context
+const CONTEXT_ARGUMENTS = [
+  "projectId",
+  "environmentSlug",
+  "environment",
+  "secretPath",
+  "path",
+];
 
-            return {
-              ...imp,
-              secrets: parsedImportSecrets,
-            };
-          }),
-        }),
-      };
+// deleting a whole project or environment always requires naming it explicitly
+const CONTEXT_EXCLUDED_TOOLS: string[] = [
+  AvailableTools.DeleteProject,
+  AvailableTools.DeleteEnvironment,
+  AvailableTools.SetContext,
+];
 
-      return {
-        content: [
+// the items of the bulk tools carry their own secret path, which also defaults to the session context
+const hasItemSecretPath = (
+  property: unknown,
+): property is { items: { properties: Record<string, object> } } => {
+  const items = (property as { items?: { properties?: object } } | undefined)
+    ?.items;
+  return !!items?.properties && "secretPath" in items.properties;
+};
+
+// documents that the context arguments of a tool are optional and which references are accepted
+const withContextDefaults = (properties: object): Record<string, object> =>
+  Object.fromEntries(
+    Object.entries(properties).map(([key, property]) => {
+      if (key === "secrets" && hasItemSecretPath(property)) {
+        return [
+          key,
           {
-            type: "text",
-            text: `${JSON.stringify(response)}`,
+            ...property,
+            items: {
+              ...property.items,
+              properties: withContextDefaults(property.items.properties),
+            },
           },
-        ],
+        ];
+      }
+
+      if (!CONTEXT_ARGUMENTS.includes(key)) {
+        return [key, property];
+      }
+
+      // the context is filled in before the schema defaults apply, so they aren't advertised
+      const { default: _default, ...contextProperty } = property as {
+        description: string;
+        default?: unknown;
       };
+      const description = contextProperty.description
+        .replace(/ \((required|Defaults to \/)\)$/, "")
+        .concat(
+          key === "projectId"
+            ? ". A project slug or name is also accepted"
+            : key === "environmentSlug" || key === "environment"
+              ? ". An environment name is also accepted"
+              : "",
+        );
+
+      return [
+        key,
+        {
+          ...contextProperty,
+          description: `${description} (Defaults to the session context, see set-context)`,
+        },
+      ];
+    }),
+  );
+
+// resolves a project slug or name to its ID, and an environment name to its slug
+const resolveContextReferences = async (
+  args: Record<string, unknown>,
+  environmentKey: string,
+) => {
+  if (typeof args.projectId !== "string") {
+    return args;
+  }
+
+  const environmentReference = args[environmentKey];
+  const { projectId, environmentSlug } = await resolveProjectReference(
+    args.projectId,
+    typeof environmentReference === "string" ? environmentReference : undefined,
+  );
+
+  return {
+    ...args,
+    projectId,
+    ...(environmentSlug && { [environmentKey]: environmentSlug }),
+  };
+};
+
+const applySessionContext = async (
+  name: string,
+  args: Record<string, unknown> = {},
+) => {
+  const tool = tools.find((t) => t.name === name);
+  if (!tool || CONTEXT_EXCLUDED_TOOLS.includes(name)) {
+    return args;
+  }
+
+  const { properties, required } = tool.inputSchema;
+  const context = getSessionContext();
+  const contextValues: Record<string, string | undefined> = {
+    projectId: context.projectId,
+    environmentSlug: context.environmentSlug,
+    environment: context.environmentSlug,
+    secretPath: context.secretPath,
+    path: context.secretPath,
+  };
+
+  const resolvedArgs = { ...args };
+  for (const key of CONTEXT_ARGUMENTS) {
+    if (key in properties && resolvedArgs[key] === undefined) {
+      resolvedArgs[key] = contextValues[key];
     }
 
-    if (name === AvailableTools.GetSecret) {
-      const data = getSecretSchema.zod.parse(args);
+    if (required.includes(key) && resolvedArgs[key] === undefined) {
+      throw new Error(
+        `${key} is required. Pass it as an argument, or set it for the session with the set-context tool`,
+      );
+    }
+  }
 
-      const secret = await infisicalSdk.secrets().getSecret({
-        environment: data.environmentSlug,
-        projectId: data.projectId,
-        secretName: data.secretName,
-        secretPath: data.secretPath,
-        expandSecretReferences: data.expandSecretReferences,
-        includeImports: data.includeImports,
-      });
+  if (
+    hasItemSecretPath(properties.secrets) &&
+    Array.isArray(resolvedArgs.secrets)
+  ) {
+    resolvedArgs.secrets = resolvedArgs.secrets.map((item: unknown) =>
+      item && typeof item === "object" && !("secretPath" in item)
+        ? { ...item, secretPath: context.secretPath }
+        : item,
+    );
+  }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Secret retrieved successfully: ${JSON.stringify(secret, null, 3)}`,
-          },
-        ],
-      };
+  // the source and target of diff-secrets are never filled from the context, but accept the same references
+  for (const key of ["source", "target"]) {
+    const target = resolvedArgs[key];
+    if (key in properties && target && typeof target === "object") {
+      resolvedArgs[key] = await resolveContextReferences(
+        target as Record<string, unknown>,
+        "environmentSlug",
+      );
     }
+  }
 
-    if (name === AvailableTools.CreateProject) {
-      const data = createProjectSchema.zod.parse(args);
+  return resolveContextReferences(
+    resolvedArgs,
+    "environment" in properties ? "environment" : "environmentSlug",
+  );
+};
 
-      const project = await infisicalSdk.projects().create({
-        projectName: data.projectName,
-        projectDescription: data.description,
-        kmsKeyId: data.kmsKeyId,
-        slug: data.slug,
-        template: data.projectTemplate,
-        type: data.type,
-      });
+// every MCP session gets its own server instance, as a server can only be connected to a single transport
+const createServer = () => {
+  const server = new Server(
+    {
+      name: "Infisical",
+      version: packageJson.version,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    },
+  );
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: promptSchemas
+        .filter(isPromptEnabled)
+        .map((prompt) => prompt.capability),
+    };
+  });
 
+  server.setRequestHandler(GetPromptRequestSchema, async (req) => {
+    const { name, arguments: args } = req.params;
+
+    const prompt = promptSchemas.find(
+      (promptSchema) => promptSchema.capability.name === name,
+    );
+    if (prompt && !isPromptEnabled(prompt)) {
+      throw new Error(
+        `Prompt "${name}" is disabled on this server because it relies on disabled tools: ${prompt.requiredTools.filter((toolName) => !isToolEnabled(toolName)).join(", ")}`,
+      );
+    }
+
+    try {
       return {
-        content: [
+        messages: [
           {
-            type: "text",
-            text: `Project created successfully: ${JSON.stringify(project, null, 3)}`,
+            role: "user",
+            content: {
+              type: "text",
+              text: handleGetPrompt(name, args),
+            },
           },
         ],
       };
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        throw new Error(
+          `Invalid arguments: ${err.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`,
+        );
+      }
+      throw err;
     }
+  });
 
-    if (name === AvailableTools.CreateEnvironment) {
-      const data = createEnvironmentSchema.zod.parse(args);
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: await withAuthentication(handleListResources),
+    };
+  });
 
-      const environment = await infisicalSdk.environments().create({
-        projectId: data.projectId,
-        name: data.name,
-        slug: data.slug,
-        position: data.position,
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates,
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (req) => {
+    const { uri } = req.params;
+    const resource = await withAuthentication(() => handleReadResource(uri));
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify(resource, null, 3),
+        },
+      ],
+    };
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: tools
+        .filter((tool) => isToolEnabled(tool.name))
+        .map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: {
+            ...tool.inputSchema,
+            required: CONTEXT_EXCLUDED_TOOLS.includes(tool.name)
+              ? tool.inputSchema.required
+              : tool.inputSchema.required.filter(
+                  (key) => !CONTEXT_ARGUMENTS.includes(key),
+                ),
+            properties: {
+              ...(CONTEXT_EXCLUDED_TOOLS.includes(tool.name)
+                ? tool.inputSchema.properties
+                : withContextDefaults(tool.inputSchema.properties)),
+              ...(tool.name !== AvailableTools.ListProfiles && {
+                profile: {
+                  type: "string",
+                  enum: [...profiles.keys()],
+                  description: `The profile to run the tool with (Defaults to ${defaultProfileName})`,
+                },
+                bypassCache: {
+                  type: "boolean",
+                  description:
+                    "Whether to fetch projects, environments and secrets from Infisical instead of reusing recently fetched responses. The fresh responses replace the cached ones (Defaults to false)",
+                },
+              }),
+              ...(requiresConfirmation(tool.name) && {
+                confirmationToken: {
+                  type: "string",
+                  description:
+                    "The confirmation token returned by the previous call of this tool. Only set this after the user confirmed the change",
+                },
+              }),
+            },
+          },
+          // confirmation requests are returned instead of the tool's output, so they can't match its schema
+          ...(!requiresConfirmation(tool.name) && {
+            outputSchema: tool.outputSchema,
+          }),
+        })),
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (req, extra) => {
+    const { name, arguments: args } = req.params;
+    const startedAt = Date.now();
+    const profileName =
+      typeof args?.profile === "string" ? args.profile : defaultProfileName;
+    const profile = profiles.get(profileName);
+    const tool = tools.find((t) => t.name === name);
+    // the arguments with the session context applied, once resolved
+    let toolArguments = args;
+
+    const audit = (
+      outcome: "success" | "error" | "confirmation-required" | "cancelled",
+      error?: string,
+    ) =>
+      writeAuditLog({
+        timestamp: new Date(startedAt).toISOString(),
+        tool: name,
+        arguments: redactAuditArguments(args),
+        identity: profile
+          ? getAuditIdentity(profile)
+          : { profile: profileName },
+        client: server.getClientVersion()?.name,
+        sessionId: extra.sessionId,
+        durationMs: Date.now() - startedAt,
+        outcome,
+        error,
+        resources: getAuditResources(toolArguments),
       });
 
-      return {
-        content: [
+    try {
+      // checked before anything else so an unknown tool never authenticates or resolves the context
+      if (!tool) {
+        throw new Error(`Unrecognized tool name: ${name}`);
+      }
+
+      if (!profile) {
+        throw new Error(
+          `Profile "${profileName}" is not configured. Configured profiles: ${[...profiles.keys()].join(", ")}`,
+        );
+      }
+
+      if (!isToolEnabled(tool.name)) {
+        throw new Error(
+          `Tool "${name}" is disabled on this server. Enabled tools are controlled by INFISICAL_READ_ONLY, INFISICAL_ENABLED_TOOLS and INFISICAL_DISABLED_TOOLS`,
+        );
+      }
+
+      const runWithProfile = <T>(callback: () => Promise<T>) =>
+        requestStorage.run(
           {
-            type: "text",
-            text: `Environment created successfully: ${JSON.stringify(environment, null, 3)}`,
+            profile,
+            sessionId: extra.sessionId,
+            bypassCache: args?.bypassCache === true,
           },
-        ],
-      };
-    }
+          () => withAuthentication(callback),
+        );
 
-    if (name === AvailableTools.CreateFolder) {
-      const data = createFolderSchema.zod.parse(args);
+      // listing the profiles doesn't call Infisical, so it works even when a profile can't authenticate
+      if (name !== AvailableTools.ListProfiles) {
+        toolArguments = await runWithProfile(() =>
+          applySessionContext(name, args),
+        );
+      }
 
-      const folder = await infisicalSdk.folders().create({
-        description: data.description,
-        environment: data.environment,
-        name: data.name,
-        path: data.path,
-        projectId: data.projectId,
-      });
+      if (requiresConfirmation(name) && isWriteToolCall(name, toolArguments)) {
+        const confirmation = await confirmToolCall({
+          server,
+          name,
+          args: toolArguments ?? {},
+          sessionId: extra.sessionId,
+          requestId: extra.requestId,
+        });
+
+        if (confirmation) {
+          audit(confirmation.outcome);
+          return confirmation.result;
+        }
+      }
+
+      // writes invalidate the cached reads of the projects they touch, even when they fail
+      // part way since some of the changes may have been applied
+      const isWrite = isWriteToolCall(name, toolArguments);
+
+      try {
+        const result =
+          name === AvailableTools.ListProfiles
+            ? await handleToolCall(name, toolArguments)
+            : await runWithProfile(() => handleToolCall(name, toolArguments));
+
+        audit("success");
+        return result;
+      } finally {
+        if (isWrite) {
+          invalidateCache(profile, [
+            ...new Set(
+              getAuditResources(toolArguments).map(
+                (resource) => resource.projectId,
+              ),
+            ),
+          ]);
+        }
+      }
+    } catch (err) {
+      const error = parseToolError(err);
+      audit("error", error.message);
+
+      // calling a tool that doesn't exist is a protocol error, everything else is reported
+      // to the model as a tool result so it can correct the call and retry
+      if (!tool) {
+        throw err;
+      }
+
+      if (profile) {
+        error.hint = await requestStorage.run(
+          { profile, sessionId: extra.sessionId },
+          () => getToolErrorHint(error, toolArguments),
+        );
+      }
 
       return {
+        isError: true,
         content: [
           {
             type: "text",
-            text: `Folder created successfully: ${JSON.stringify(folder, null, 3)}`,
+            text: `Error calling ${name}: ${JSON.stringify(error, null, 3)}`,
           },
         ],
       };
     }
+  });
 
-    if (name === AvailableTools.InviteMembersToProject) {
-      const data = inviteMembersToProjectSchema.zod.parse(args);
+  return server;
+};
 
-      const projectMemberships = await infisicalSdk.projects().inviteMembers({
-        projectId: data.projectId,
-        emails: data.emails,
-        usernames: data.usernames,
-        roleSlugs: data.roleSlugs,
+const sendJson = (
+  res: http.ServerResponse,
+  statusCode: number,
+  body: unknown,
+  headers: http.OutgoingHttpHeaders = {},
+) => {
+  res.writeHead(statusCode, {
+    "Content-Type": "application/json",
+    ...headers,
+  });
+  res.end(JSON.stringify(body));
+};
+
+const sendJsonRpcError = (
+  res: http.ServerResponse,
+  statusCode: number,
+  message: string,
+) => {
+  sendJson(res, statusCode, {
+    jsonrpc: "2.0",
+    error: {
+      code: -32000,
+      message,
+    },
+    id: null,
+  });
+};
+
+const readJsonBody = async (req: http.IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8")) as unknown;
+};
+
+// compare digests so the comparison takes the same time regardless of where the tokens differ
+const isAuthorizedHttpRequest = (req: http.IncomingMessage) => {
+  const [scheme, token] = (req.headers.authorization ?? "").split(" ");
+  if (scheme?.toLowerCase() !== "bearer" || !token) {
+    return false;
+  }
+
+  const hash = (value: string) =>
+    crypto.createHash("sha256").update(value).digest();
+
+  return crypto.timingSafeEqual(
+    hash(token),
+    hash(env.INFISICAL_MCP_HTTP_AUTH_TOKEN!),
+  );
+};
+
+const httpTransports = new Map<string, StreamableHTTPServerTransport>();
+
+const handleMcpHttpRequest = async (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+) => {
+  let body: unknown;
+  if (req.method === "POST") {
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      sendJson(res, 400, {
+        jsonrpc: "2.0",
+        error: {
+          code: -32700,
+          message: "Parse error: Invalid JSON",
+        },
+        id: null,
       });
+      return;
+    }
+  }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Members successfully invited to project: ${JSON.stringify(projectMemberships, null, 3)}`,
-          },
-        ],
-      };
+  const sessionId = req.headers["mcp-session-id"];
+  let transport =
+    typeof sessionId === "string" ? httpTransports.get(sessionId) : undefined;
+
+  if (!transport) {
+    if (sessionId) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
     }
 
-    if (name === AvailableTools.ListProjects) {
-      const data = listProjectsSchema.zod.parse(args);
-      const accessToken = infisicalSdk.auth().getAccessToken();
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+      return;
+    }
 
-      try {
-        let hostUrl = env.INFISICAL_HOST_URL;
-        if (!hostUrl.endsWith("/api")) {
-          if (hostUrl.endsWith("/")) {
-            hostUrl = hostUrl.slice(0, -1);
-          }
+    const newTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        httpTransports.set(newSessionId, newTransport);
+      },
+    });
+
+    newTransport.onclose = () => {
+      if (newTransport.sessionId) {
+        httpTransports.delete(newTransport.sessionId);
+        clearSessionContexts(newTransport.sessionId);
+      }
+    };
+
+    await createServer().connect(newTransport);
+    transport = newTransport;
+  }
+
+  await transport.handleRequest(req, res, body);
+};
 
-          hostUrl += "/api";
+const startHttpServer = async () => {
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+      if (pathname === "/health") {
+        if (req.method !== "GET") {
+          sendJson(res, 405, { error: "Method not allowed" }, { Allow: "GET" });
+          return;
         }
 
-        const res = await axios.get<{
-          workspaces: {
-            hasDeleteProtection: boolean;
-            id: string;
-            name: string;
-            orgId: string;
-            slug: string;
-            type: string;
-            environments: {
-              name: string;
-              slug: string;
-              id: string;
-            }[];
-          }[];
-        }>(`${hostUrl}/v1/workspace?type=${data.type}`, {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
+        sendJson(res, 200, {
+          status: "ok",
+          version: packageJson.version,
         });
+        return;
+      }
 
-        const projects = res.data.workspaces.map((workspace) => ({
-          hasDeleteProtection: workspace.hasDeleteProtection,
-          id: workspace.id,
-          name: workspace.name,
-          orgId: workspace.orgId,
-          slug: workspace.slug,
-          type: workspace.type,
-          environments: workspace.environments.map((environment) => ({
-            ...environment,
-          })),
-        }));
+      if (pathname !== "/mcp") {
+        sendJson(res, 404, { error: "Not found" });
+        return;
+      }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Projects retrieved successfully: ${JSON.stringify(projects, null, 3)}`,
-            },
-          ],
-        };
-      } catch (err) {
-        console.error(err);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error retrieving projects: ${(err as any).message}.`,
-            },
-          ],
-        };
+      if (!isAuthorizedHttpRequest(req)) {
+        sendJsonRpcError(res, 401, "Unauthorized");
+        return;
       }
-    }
 
-    throw new Error(`Unrecognized tool name: ${name}`);
-  } catch (err) {
-    if (err instanceof z.ZodError) {
-      throw new Error(
-        `Invalid arguments: ${err.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`,
-      );
+      await handleMcpHttpRequest(req, res);
+    } catch (err) {
+      console.error(err);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
     }
-    throw err;
-  }
-});
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(
+      env.INFISICAL_MCP_HTTP_PORT,
+      env.INFISICAL_MCP_HTTP_HOST,
+      resolve,
+    );
+  });
+
+  console.error(
+    `Infisical MCP Server running on http://${env.INFISICAL_MCP_HTTP_HOST}:${env.INFISICAL_MCP_HTTP_PORT}/mcp ✅`,
+  );
+};
 
 (async () => {
-  await server.connect(new StdioServerTransport());
+  if (env.INFISICAL_MCP_TRANSPORT === McpTransport.StreamableHttp) {
+    await startHttpServer();
+    return;
+  }
+
+  await createServer().connect(new StdioServerTransport());
   console.error("Infisical MCP Server running on stdio ✅");
 })();